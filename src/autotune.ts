@@ -0,0 +1,153 @@
+/**
+ * Auto-tuning of lattice grid step toward a recall or compression ratio target
+ */
+
+import {
+  Vector,
+  CompressionMethod,
+  CompressionOptions,
+  AutoTuneReport,
+  AutoTuneStep,
+} from './types';
+import { strideSample, evaluateSetting, measureCompressionRatio } from './evaluate';
+import { normalizeVectors } from './utils';
+
+/** Bisection steps per searched parameter */
+const BISECTION_STEPS = 12;
+
+/** Finest grid step considered */
+const MIN_GRID_STEP = 1e-4;
+
+/**
+ * Coarsest useful grid step: the full value range (after normalization)
+ * collapses everything to a few cells
+ */
+function coarsestGridStep(sample: Vector[], normalize: boolean): number {
+  const processed = normalize ? normalizeVectors(sample) : sample;
+  let maxAbs = 0;
+  for (const v of processed) for (const val of v) maxAbs = Math.max(maxAbs, Math.abs(val));
+  return Math.max(2 * maxAbs, MIN_GRID_STEP);
+}
+
+/**
+ * Search the coarsest grid step (and, for boundary-aware, the largest
+ * boundary margin) whose recall@10 on a sample meets targetRecall
+ * @param vectors - Input vectors
+ * @param options - Fully resolved compression options (LATTICE or BOUNDARY_AWARE)
+ * @returns Chosen parameters and search trace
+ */
+export function tuneGridStep(
+  vectors: Vector[],
+  options: Required<CompressionOptions>
+): AutoTuneReport {
+  const sample = strideSample(vectors);
+
+  const boundaryAware = options.method === CompressionMethod.BOUNDARY_AWARE;
+  const marginRatio = options.gridStep > 0 ? options.boundaryMargin / options.gridStep : 0;
+  const target = options.targetRecall;
+  const trace: AutoTuneStep[] = [];
+
+  // Recall is measured in the compression space (after normalization), so it
+  // reflects quantization loss only
+  const evaluate = (gridStep: number, boundaryMargin: number): AutoTuneStep => {
+    const { metrics, compressionRatio } = evaluateSetting(
+      sample,
+      { ...options, gridStep, boundaryMargin },
+      vectors.length
+    );
+    const point: AutoTuneStep = {
+      gridStep,
+      boundaryMargin: boundaryAware ? boundaryMargin : undefined,
+      recall10: metrics.recall10,
+      compressionRatio,
+    };
+    trace.push(point);
+    return point;
+  };
+
+  let hi = coarsestGridStep(sample, options.normalize);
+  let lo = MIN_GRID_STEP;
+
+  // Stage 1: grid step (geometric bisection, margin kept proportional)
+  let best = evaluate(hi, hi * marginRatio);
+  if (best.recall10 < target) {
+    best = evaluate(lo, lo * marginRatio);
+    if (best.recall10 >= target) {
+      for (let i = 0; i < BISECTION_STEPS; i++) {
+        const mid = Math.sqrt(lo * hi);
+        const point = evaluate(mid, mid * marginRatio);
+        if (point.recall10 >= target) {
+          lo = mid;
+          best = point;
+        } else {
+          hi = mid;
+        }
+      }
+    }
+  }
+
+  // Stage 2: widest boundary margin that still meets the target
+  if (boundaryAware && best.recall10 >= target) {
+    const dim = sample[0].length;
+    let marginLo = best.boundaryMargin ?? 0;
+    let marginHi = (best.gridStep / 2) * Math.sqrt(dim);
+    for (let i = 0; i < BISECTION_STEPS && marginHi - marginLo > 1e-9; i++) {
+      const mid = (marginLo + marginHi) / 2;
+      const point = evaluate(best.gridStep, mid);
+      if (point.recall10 >= target) {
+        marginLo = mid;
+        best = point;
+      } else {
+        marginHi = mid;
+      }
+    }
+  }
+
+  return {
+    gridStep: best.gridStep,
+    boundaryMargin: best.boundaryMargin,
+    targetRecall: target,
+    achievedRecall: best.recall10,
+    targetMet: best.recall10 >= target,
+    sampleSize: sample.length,
+    trace,
+  };
+}
+
+/**
+ * Search the finest grid step whose compression ratio (in real bytes,
+ * measured on a sample) meets targetRatio; the boundary margin is kept
+ * proportional to the step
+ * @param vectors - Input vectors
+ * @param targetRatio - Desired compression ratio (e.g., 10 for 10×)
+ * @param options - Fully resolved compression options (LATTICE or BOUNDARY_AWARE)
+ * @returns Grid step (the finest reaching the highest ratio when the target is out of reach)
+ */
+export function tuneGridStepForRatio(
+  vectors: Vector[],
+  targetRatio: number,
+  options: Required<CompressionOptions>
+): number {
+  const sample = strideSample(vectors);
+  const marginRatio = options.gridStep > 0 ? options.boundaryMargin / options.gridStep : 0;
+  const ratio = (gridStep: number) =>
+    measureCompressionRatio(
+      sample,
+      { ...options, gridStep, boundaryMargin: gridStep * marginRatio },
+      vectors.length
+    );
+
+  // Geometric bisection: coarser steps need fewer bits per component. The
+  // ceiling (the largest magnitude) still keeps the extreme values off zero,
+  // and the floor is relative to it, so the step scales with the data
+  let hi = coarsestGridStep(sample, options.normalize) / 2;
+  let lo = hi * MIN_GRID_STEP;
+  const target = Math.min(targetRatio, ratio(hi));
+  if (ratio(lo) >= target) return lo;
+  for (let i = 0; i < BISECTION_STEPS; i++) {
+    const mid = Math.sqrt(lo * hi);
+    if (ratio(mid) >= target) hi = mid;
+    else lo = mid;
+  }
+  return hi;
+}
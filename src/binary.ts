@@ -0,0 +1,92 @@
+/**
+ * Binary Quantization: one sign bit per component, packed 32 per word, with
+ * popcount-based Hamming distances
+ */
+
+import { Vector, BinaryQuantizer } from './types';
+
+/**
+ * Train a binary quantizer
+ *
+ * A component decodes to ±scale of its dimension; the mean absolute value
+ * is the scale with the least squared error for a fixed sign.
+ * @param vectors - Training vectors
+ * @returns Trained binary quantizer (scales rounded to float32)
+ */
+export function trainBinaryQuantizer(vectors: Vector[]): BinaryQuantizer {
+  const dim = vectors.length > 0 ? vectors[0].length : 0;
+  const scales = new Array(dim).fill(0);
+  for (const v of vectors) {
+    for (let d = 0; d < dim; d++) scales[d] += Math.abs(v[d]);
+  }
+  return { scales: scales.map(sum => Math.fround(sum / vectors.length)) };
+}
+
+/**
+ * Encode vectors as sign bitsets (bit d set when component d is positive)
+ * @param vectors - Vectors to encode
+ * @returns Per-vector bitsets of ceil(dim / 32) words, lowest dimension in the lowest bit
+ */
+export function encodeBinaryQuantizer(vectors: Vector[]): Uint32Array[] {
+  return vectors.map(v => {
+    const words = new Uint32Array(Math.ceil(v.length / 32));
+    for (let d = 0; d < v.length; d++) {
+      if (v[d] > 0) words[d >>> 5] |= 1 << (d & 31);
+    }
+    return words;
+  });
+}
+
+/**
+ * Reconstruct vectors from sign bitsets
+ * @param codes - Per-vector bitsets
+ * @param bq - Trained binary quantizer
+ * @returns Reconstructed vectors
+ */
+export function decodeBinaryQuantizer(codes: ArrayLike<number>[], bq: BinaryQuantizer): Vector[] {
+  return codes.map(words =>
+    bq.scales.map((scale, d) => ((words[d >>> 5] >>> (d & 31)) & 1 ? scale : -scale))
+  );
+}
+
+/**
+ * Number of differing bits between two bitsets
+ * @param a - First bitset
+ * @param b - Second bitset (same word count)
+ */
+export function hammingDistance(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let bits = 0;
+  for (let w = 0; w < a.length; w++) bits += popcount32(a[w] ^ b[w]);
+  return bits;
+}
+
+/**
+ * Hamming distance from a query bitset to every row of packed bitsets
+ * @param query - Query bitset
+ * @param codes - Row-major bitsets (count × words)
+ * @param count - Number of rows
+ */
+export function hammingScores(
+  query: ArrayLike<number>,
+  codes: ArrayLike<number>,
+  count: number
+): Float64Array {
+  const words = query.length;
+  const out = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    let bits = 0;
+    for (let w = 0; w < words; w++) bits += popcount32(query[w] ^ codes[i * words + w]);
+    out[i] = bits;
+  }
+  return out;
+}
+
+/**
+ * Set bits in a 32-bit word (SWAR popcount)
+ */
+function popcount32(x: number): number {
+  x -= (x >>> 1) & 0x55555555;
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+  x = (x + (x >>> 4)) & 0x0f0f0f0f;
+  return Math.imul(x, 0x01010101) >>> 24;
+}
@@ -0,0 +1,111 @@
+/**
+ * Fitting regime thresholds to labeled compressions
+ */
+
+import { LabeledMetrics, Regime, RegimeCalibration, RegimePolicy } from './types';
+import { collapseScore, regimeScore, detectRegime, DEFAULT_REGIME_THRESHOLDS } from './metrics';
+
+/**
+ * Fit regime thresholds from examples labeled acceptable or unacceptable
+ *
+ * Acceptable means below COLLAPSE (STABLE or PRE_COLLAPSE). Binary labels
+ * only locate that one boundary, so this is a single-parameter fit: the
+ * COLLAPSE threshold is placed midway between two observed regime scores so
+ * that `detectRegime()` under the fitted policy (rules included)
+ * misclassifies as few examples as possible, preferring the cut closest to
+ * the current threshold on ties. PRE_COLLAPSE and POST_COLLAPSE thresholds
+ * are not fitted; they are scaled to keep their proportions to it. When the
+ * base policy sets collapse index weights, each example's collapse index is
+ * recomputed with them.
+ *
+ * @example
+ * ```typescript
+ * const { policy } = calibrateRegimePolicy([
+ *   { metrics: goodRun.metrics, acceptable: true },
+ *   { metrics: badRun.metrics, acceptable: false },
+ * ]);
+ * compressor.compressWithAnalysis(vectors, policy);
+ * ```
+ * @param examples - Metrics of past compressions with their labels
+ * @param base - Policy to calibrate (weights, topology scale and rules are kept)
+ * @returns Calibrated policy and its accuracy on the examples
+ */
+export function calibrateRegimePolicy(
+  examples: LabeledMetrics[],
+  base: RegimePolicy = {}
+): RegimeCalibration {
+  if (!examples || examples.length === 0) {
+    throw new Error('Calibration needs at least one labeled example');
+  }
+
+  const metrics = examples.map(example => {
+    const m = example.metrics;
+    if (!base.weights) return m;
+    const collapseIndex = collapseScore(
+      m.recall5,
+      m.precision10 ?? m.recall10,
+      m.kVariance ?? 0,
+      m.centroidSurvivalRatio ?? 1,
+      base.weights
+    );
+    return { ...m, collapseIndex };
+  });
+  const scores = metrics.map(m => regimeScore(m, base));
+
+  const current = { ...DEFAULT_REGIME_THRESHOLDS, ...base.thresholds };
+  const policyAt = (collapse: number): RegimePolicy => {
+    const scale = current.collapse > 0 ? collapse / current.collapse : 1;
+    return {
+      ...base,
+      thresholds: {
+        preCollapse: current.preCollapse * scale,
+        collapse,
+        postCollapse: current.postCollapse * scale,
+      },
+    };
+  };
+
+  // Count examples whose detected regime disagrees with their label
+  const errors = (policy: RegimePolicy) => {
+    let falseAccepts = 0;
+    let falseRejects = 0;
+    examples.forEach(({ acceptable }, i) => {
+      const regime = detectRegime(metrics[i], policy);
+      const accepted = regime === Regime.STABLE || regime === Regime.PRE_COLLAPSE;
+      if (acceptable && !accepted) falseRejects++;
+      if (!acceptable && accepted) falseAccepts++;
+    });
+    return { falseAccepts, falseRejects };
+  };
+
+  // Candidate cuts: midpoints between distinct scores, plus one below and
+  // one above every score
+  const distinct = Array.from(new Set(scores)).sort((a, b) => a - b);
+  const candidates = [0, distinct[distinct.length - 1] + 0.01];
+  for (let i = 1; i < distinct.length; i++) {
+    candidates.push((distinct[i - 1] + distinct[i]) / 2);
+  }
+
+  let best = current.collapse;
+  let bestErrors = Infinity;
+  for (const candidate of candidates) {
+    const { falseAccepts, falseRejects } = errors(policyAt(candidate));
+    const total = falseAccepts + falseRejects;
+    if (
+      total < bestErrors ||
+      (total === bestErrors && Math.abs(candidate - current.collapse) < Math.abs(best - current.collapse))
+    ) {
+      best = candidate;
+      bestErrors = total;
+    }
+  }
+
+  const policy = policyAt(best);
+  const { falseAccepts, falseRejects } = errors(policy);
+  return {
+    policy,
+    accuracy: 1 - (falseAccepts + falseRejects) / examples.length,
+    falseAccepts,
+    falseRejects,
+  };
+}
@@ -9,14 +9,28 @@ import {
   CompressionResult,
   CompressionAnalysisResult,
   CompressionMetrics,
+  CompressorModel,
+  EncodedVectors,
+  AutoTuneReport,
+  ParallelOptions,
   Regime,
+  ProjectionType,
+  ScalarCalibration,
+  DistanceMetric,
+  SamplingStrategy,
+  MetricsOptions,
+  RegimePolicy,
 } from './types';
 import {
-  normalizeVectors,
-  euclideanDistance,
-  countUniqueVectors,
-} from './utils';
-import { calculateMetrics, detectRegime } from './metrics';
+  calculateMetrics,
+  detectRegime,
+  topologyScore,
+  DEFAULT_REGIME_THRESHOLDS,
+} from './metrics';
+import { fitModel, encodeVectors, decodeVectors, referenceVectors } from './model';
+import { packCodes, unpackCodes, byteCompressionRatio } from './encoding';
+import { tuneGridStep } from './autotune';
+import { encodeParallel, calculateMetricsParallel } from './parallel';
 
 /**
  * Default compression options
@@ -25,10 +39,28 @@ const DEFAULT_OPTIONS: Required<CompressionOptions> = {
   method: CompressionMethod.BOUNDARY_AWARE,
   gridStep: 0.1,
   boundaryMargin: 0.1,
+  boundaryLevels: 2,
   clusterCount: 256,
+  subQuantizers: 8,
+  opqIterations: 4,
+  residualStages: 4,
+  targetDistortion: 0,
+  scalarBits: 8,
+  scalarCalibration: ScalarCalibration.MIN_MAX,
+  scalarPercentile: 0.999,
   targetDim: 0,
+  projectionType: ProjectionType.GAUSSIAN,
   k: 10,
+  metric: DistanceMetric.EUCLIDEAN,
+  sampleSize: 200,
+  sampling: SamplingStrategy.STRIDE,
+  bootstrapResamples: 0,
+  confidenceLevel: 0.95,
+  distributionMetrics: false,
+  topologyMetrics: false,
   normalize: true,
+  preserveNorms: false,
+  normBits: 8,
   seed: 42,
   targetRecall: 0.95,
   autoAdjustGridStep: false,
@@ -79,59 +111,80 @@ export class VectorCompressor {
       };
     }
 
-    // Preprocess: normalization
-    let processedVectors = vectors;
-    if (this.options.normalize) {
-      processedVectors = normalizeVectors(vectors);
-    }
-
-    // Compress based on method
-    let compressed: Vector[];
-
-    switch (this.options.method) {
-      case CompressionMethod.LATTICE:
-        compressed = this.latticeQuantization(processedVectors, this.options.gridStep);
-        break;
-
-      case CompressionMethod.BOUNDARY_AWARE:
-        compressed = this.boundaryAwareQuantization(
-          processedVectors,
-          this.options.gridStep,
-          this.options.boundaryMargin
-        );
-        break;
+    // Fit on the input itself (auto-tuning the grid if enabled), then encode and reconstruct
+    const { options, autoTune } = this.resolveOptions(vectors);
+    const model = fitModel(vectors, options);
+    return this.assemble(model, this.encode(model, vectors), options, autoTune);
+  }
 
-      case CompressionMethod.K_MEANS:
-        // K-means not implemented in initial version
-        compressed = processedVectors;
-        break;
+  /**
+   * compress() with encoding sharded across Node worker threads
+   *
+   * Fitting stays on the calling thread; the output is identical to
+   * compress() for any worker count.
+   * 
+   * @param vectors - Input vectors to compress
+   * @param parallel - Worker count (default: available CPUs)
+   * @returns Compressed vectors and compression ratio
+   */
+  async compressParallel(
+    vectors: Vector[],
+    parallel: ParallelOptions = {}
+  ): Promise<CompressionResult> {
+    if (!vectors || vectors.length === 0) {
+      return this.compress(vectors);
+    }
 
-      case CompressionMethod.RANDOM_PROJECTION:
-        // Random projection not implemented in initial version
-        compressed = processedVectors;
-        break;
+    const { options, autoTune } = this.resolveOptions(vectors);
+    const model = fitModel(vectors, options);
+    return this.assemble(
+      model,
+      await encodeParallel(model, vectors, parallel),
+      options,
+      autoTune
+    );
+  }
 
-      default:
-        compressed = processedVectors;
-    }
+  /**
+   * Fit a reusable model (codebook / grid / projection) on a training sample
+   * 
+   * @param vectors - Training vectors
+   * @returns Trained model, JSON-serializable for use in other processes
+   */
+  fit(vectors: Vector[]): CompressorModel {
+    return fitModel(vectors, this.resolveOptions(vectors).options);
+  }
 
-    // Calculate compression ratio
-    const uniqueCentroids = countUniqueVectors(compressed);
-    const compressionRatio = vectors.length / uniqueCentroids;
+  /**
+   * Encode vectors against a previously fitted model
+   * 
+   * @param model - Model returned by fit()
+   * @param vectors - Vectors to encode
+   * @returns One code array per vector
+   */
+  encode(model: CompressorModel, vectors: Vector[]): number[][] {
+    return encodeVectors(model, vectors);
+  }
 
-    return {
-      compressed,
-      compressionRatio,
-    };
+  /**
+   * Reconstruct vectors from codes
+   * 
+   * @param model - Model the codes were encoded with
+   * @param codes - Codes returned by encode(), or their packed form
+   * @returns Reconstructed vectors
+   */
+  decode(model: CompressorModel, codes: number[][] | EncodedVectors): Vector[] {
+    return decodeVectors(model, Array.isArray(codes) ? codes : unpackCodes(codes));
   }
 
   /**
    * Compress vectors with full quality analysis
    * 
    * @param vectors - Input vectors to compress
+   * @param policy - Collapse index weights, regime thresholds and rules (default: built-in)
    * @returns Full analysis including metrics and regime
    */
-  compressWithAnalysis(vectors: Vector[]): CompressionAnalysisResult {
+  compressWithAnalysis(vectors: Vector[], policy: RegimePolicy = {}): CompressionAnalysisResult {
     if (!vectors || vectors.length === 0) {
       return {
         compressed: [],
@@ -146,11 +199,59 @@ export class VectorCompressor {
     // Compress
     const result = this.compress(vectors);
 
-    // Calculate metrics
-    const metrics = calculateMetrics(vectors, result.compressed, this.options.k);
+    // Calculate metrics against the originals in the reconstructions' space
+    const metrics = calculateMetrics(
+      referenceVectors(result.model!, vectors),
+      result.compressed,
+      this.options.k,
+      this.metricsOptions(policy)
+    );
+    return this.analyze(vectors, result, metrics, policy);
+  }
+
+  /**
+   * compressWithAnalysis() with encoding and metric sampling sharded across
+   * Node worker threads
+   *
+   * The output is identical to compressWithAnalysis() for any worker count.
+   * 
+   * @param vectors - Input vectors to compress
+   * @param parallel - Worker count (default: available CPUs)
+   * @param policy - Collapse index weights, regime thresholds and rules (default: built-in)
+   * @returns Full analysis including metrics and regime
+   */
+  async compressWithAnalysisParallel(
+    vectors: Vector[],
+    parallel: ParallelOptions = {},
+    policy: RegimePolicy = {}
+  ): Promise<CompressionAnalysisResult> {
+    if (!vectors || vectors.length === 0) {
+      return this.compressWithAnalysis(vectors, policy);
+    }
+
+    const result = await this.compressParallel(vectors, parallel);
+    const metrics = await calculateMetricsParallel(
+      referenceVectors(result.model!, vectors),
+      result.compressed,
+      this.options.k,
+      { ...parallel, ...this.metricsOptions(policy) }
+    );
+    return this.analyze(vectors, result, metrics, policy);
+  }
+
+  /**
+   * Regime detection and warnings for a compression result
+   */
+  private analyze(
+    vectors: Vector[],
+    result: CompressionResult,
+    metrics: CompressionMetrics,
+    policy: RegimePolicy
+  ): CompressionAnalysisResult {
+    metrics.compressionRatio = result.compressionRatio;
 
     // Detect regime
-    const regime = detectRegime(metrics);
+    const regime = detectRegime(metrics, policy);
 
     // Generate warnings
     const warnings: string[] = [];
@@ -159,11 +260,45 @@ export class VectorCompressor {
         `Quality degradation detected (${regime}). Consider reducing gridStep or using boundary-aware method.`
       );
     }
+    if (result.autoTune && !result.autoTune.targetMet) {
+      warnings.push(
+        `Auto-tuning could not reach targetRecall ${result.autoTune.targetRecall} ` +
+          `(best recall@10 ${result.autoTune.achievedRecall.toFixed(3)}).`
+      );
+    }
+    if (metrics.confidence) {
+      const { lower, upper } = metrics.confidence.collapseIndex;
+      const best = detectRegime({ ...metrics, collapseIndex: lower }, policy);
+      const worst = detectRegime({ ...metrics, collapseIndex: upper }, policy);
+      if (best !== worst) {
+        warnings.push(
+          `Regime is uncertain: the ${metrics.confidence.level * 100}% interval of the ` +
+            `collapse index spans ${best} to ${worst}. Consider a larger sampleSize.`
+        );
+      }
+    }
+    // Warn once topology alone would reach PRE_COLLAPSE
+    const { preCollapse } = { ...DEFAULT_REGIME_THRESHOLDS, ...policy.thresholds };
+    if (
+      metrics.topologicalDistortion !== undefined &&
+      topologyScore(metrics, policy) > preCollapse
+    ) {
+      warnings.push(
+        `Topological distortion detected: persistence diagrams differ by ` +
+          `${(metrics.topologicalDistortion * 100).toFixed(1)}% of the sample diameter ` +
+          `(H0 bottleneck ${metrics.bottleneckH0!.toFixed(3)}, H1 bottleneck ${metrics.bottleneckH1!.toFixed(3)}).`
+      );
+    }
     if (metrics.kVariance && metrics.kVariance > 0.02) {
       warnings.push('High k-variance detected - topology may be unstable.');
     }
     if (metrics.dimensionCollapseRatio && metrics.dimensionCollapseRatio > 2.0) {
       warnings.push('Dimension-specific collapse detected - some features affected more than others.');
+      if (this.options.method === CompressionMethod.PRODUCT_QUANTIZATION) {
+        warnings.push(
+          'Consider OPTIMIZED_PRODUCT_QUANTIZATION to balance variance across subspaces.'
+        );
+      }
     }
 
     return {
@@ -172,48 +307,99 @@ export class VectorCompressor {
       metrics,
       regime,
       compressionRatio: result.compressionRatio,
-      gridStep: this.options.gridStep,
+      centroids: result.centroids,
+      codes: result.codes,
+      projection: result.projection,
+      productQuantizer: result.productQuantizer,
+      pqCodes: result.pqCodes,
+      model: result.model,
+      encoded: result.encoded,
+      autoTune: result.autoTune,
+      options: result.options,
+      gridStep: result.model?.gridStep ?? this.options.gridStep,
       warnings: warnings.length > 0 ? warnings : undefined,
     };
   }
 
   /**
-   * Lattice quantization (Uniform Scalar Quantization)
-   * Simple grid-based quantization
+   * Metric options derived from the compression options and regime policy
    */
-  private latticeQuantization(vectors: Vector[], step: number): Vector[] {
-    if (step <= 0) return vectors;
-
-    return vectors.map(v => v.map(val => Math.round(val / step) * step));
+  private metricsOptions(policy: RegimePolicy = {}): MetricsOptions {
+    return {
+      weights: policy.weights,
+      metric: this.options.metric,
+      sampleSize: this.options.sampleSize,
+      sampling: this.options.sampling,
+      seed: this.options.seed,
+      bootstrapResamples: this.options.bootstrapResamples,
+      confidenceLevel: this.options.confidenceLevel,
+      distribution: this.options.distributionMetrics,
+      topology: this.options.topologyMetrics,
+    };
   }
 
   /**
-   * Boundary-aware adaptive quantization
-   * Uses fine grid for points far from coarse grid (high distortion areas)
+   * Reconstruct and package the result of encoding with a fitted model
    */
-  private boundaryAwareQuantization(
-    vectors: Vector[],
-    baseStep: number,
-    threshold: number
-  ): Vector[] {
-    if (baseStep <= 0) return vectors;
+  private assemble(
+    model: CompressorModel,
+    encoded: number[][],
+    options: Required<CompressionOptions>,
+    autoTune?: AutoTuneReport
+  ): CompressionResult {
+    const compressed = this.decode(model, encoded);
+
+    const centroids = model.centroids;
+    const projection = model.projection;
+    const productQuantizer = model.productQuantizer;
+    const codes = centroids ? encoded.map(c => c[0]) : undefined;
+    const pqCodes = productQuantizer
+      ? encoded.map(c => Uint8Array.from(model.normQuantizer ? c.slice(0, -1) : c))
+      : undefined;
 
-    const fineStep = baseStep / 2;
+    // Calculate compression ratio from real byte sizes
+    const packed = packCodes(model, encoded);
+    const compressionRatio = byteCompressionRatio(model, packed);
 
-    return vectors.map(v => {
-      // Try coarse quantization
-      const coarse = v.map(val => Math.round(val / baseStep) * baseStep);
+    return {
+      compressed,
+      compressionRatio,
+      centroids,
+      codes,
+      projection,
+      productQuantizer,
+      pqCodes,
+      model,
+      encoded: packed,
+      autoTune,
+      options,
+    };
+  }
 
-      // Check if distortion is high
-      const dist = euclideanDistance(v, coarse);
+  /**
+   * Options to fit with: grid step and boundary margin are searched on a
+   * sample when autoAdjustGridStep is enabled for a lattice method
+   */
+  private resolveOptions(vectors: Vector[]): {
+    options: Required<CompressionOptions>;
+    autoTune?: AutoTuneReport;
+  } {
+    const lattice =
+      this.options.method === CompressionMethod.LATTICE ||
+      this.options.method === CompressionMethod.BOUNDARY_AWARE;
+    if (!this.options.autoAdjustGridStep || !lattice || vectors.length === 0) {
+      return { options: this.options };
+    }
 
-      // If high distortion, use finer grid
-      if (dist > threshold) {
-        return v.map(val => Math.round(val / fineStep) * fineStep);
-      } else {
-        return coarse;
-      }
-    });
+    const autoTune = tuneGridStep(vectors, this.options);
+    return {
+      options: {
+        ...this.options,
+        gridStep: autoTune.gridStep,
+        boundaryMargin: autoTune.boundaryMargin ?? this.options.boundaryMargin,
+      },
+      autoTune,
+    };
   }
 
   /**
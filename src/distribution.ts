@@ -0,0 +1,160 @@
+/**
+ * Distribution-level metrics: how the compressed point cloud as a whole
+ * drifts from the original, independent of neighbor rankings
+ */
+
+import { Vector, DistanceMetric, DistributionMetrics, DistributionOptions } from './types';
+import { SeededRNG, distance } from './utils';
+
+/** Default vectors sampled for pairwise distances */
+const SAMPLE_LIMIT = 500;
+
+/** Default random directions for sliced Wasserstein */
+const PROJECTIONS = 64;
+
+/** Default histogram bins */
+const BINS = 32;
+
+/** Smoothing mass added to every histogram bin before taking logs */
+const EPSILON = 1e-10;
+
+/**
+ * Calculate sliced Wasserstein distance and pairwise-distance divergence
+ *
+ * Both are computed on the same evenly spaced sample of vectors.
+ * @param original - Original vectors
+ * @param compressed - Compressed vectors (same order as original)
+ * @param options - Sample size, projection count, bins, seed and metric
+ * @returns Distribution drift metrics (all 0 for identical inputs)
+ */
+export function calculateDistributionMetrics(
+  original: Vector[],
+  compressed: Vector[],
+  options: DistributionOptions = {}
+): DistributionMetrics {
+  const n = Math.min(original?.length ?? 0, compressed?.length ?? 0);
+  if (n === 0) {
+    return { slicedWasserstein: 0, distanceKL: 0, distanceJS: 0 };
+  }
+
+  const limit = Math.max(2, Math.floor(options.sampleSize ?? SAMPLE_LIMIT));
+  const step = Math.max(1, Math.floor(n / limit));
+  const indices: number[] = [];
+  for (let i = 0; i < n && indices.length < limit; i += step) indices.push(i);
+
+  const origSample = indices.map(i => original[i]);
+  const compSample = indices.map(i => compressed[i]);
+
+  // Sliced Wasserstein compares coordinates, so it needs a shared space
+  const slicedWasserstein =
+    original[0].length === compressed[0].length
+      ? slicedWasserstein2(origSample, compSample, options)
+      : undefined;
+
+  const metric = options.metric ?? DistanceMetric.EUCLIDEAN;
+  const [p, q] = distanceHistograms(origSample, compSample, metric, options.bins ?? BINS);
+
+  const m = p.map((pi, b) => (pi + q[b]) / 2);
+  return {
+    slicedWasserstein,
+    distanceKL: klDivergence(p, q),
+    distanceJS: (klDivergence(p, m) + klDivergence(q, m)) / 2,
+  };
+}
+
+/**
+ * Sliced 2-Wasserstein distance: the root mean squared 1-D Wasserstein-2
+ * distance over seeded random unit directions
+ *
+ * Projected samples are sorted, so the 1-D optimal transport pairs the
+ * i-th smallest projections of both clouds.
+ */
+function slicedWasserstein2(a: Vector[], b: Vector[], options: DistributionOptions): number {
+  const dim = a[0].length;
+  const projections = Math.max(1, Math.floor(options.projections ?? PROJECTIONS));
+  const rng = new SeededRNG(options.seed ?? 42);
+  const projA = new Float64Array(a.length);
+  const projB = new Float64Array(b.length);
+  let total = 0;
+
+  for (let p = 0; p < projections; p++) {
+    const direction = Array.from({ length: dim }, () => rng.gaussian());
+    const norm = Math.sqrt(direction.reduce((sum, x) => sum + x * x, 0));
+    for (let d = 0; d < dim; d++) direction[d] /= norm;
+
+    for (let i = 0; i < a.length; i++) {
+      let sa = 0;
+      let sb = 0;
+      for (let d = 0; d < dim; d++) {
+        sa += a[i][d] * direction[d];
+        sb += b[i][d] * direction[d];
+      }
+      projA[i] = sa;
+      projB[i] = sb;
+    }
+    projA.sort();
+    projB.sort();
+
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += (projA[i] - projB[i]) ** 2;
+    total += sum / a.length;
+  }
+
+  return Math.sqrt(total / projections);
+}
+
+/**
+ * Normalized histograms of all pairwise distances in both spaces, over
+ * shared equal-width bins spanning both ranges
+ */
+function distanceHistograms(
+  a: Vector[],
+  b: Vector[],
+  metric: DistanceMetric,
+  bins: number
+): [number[], number[]] {
+  const distA: number[] = [];
+  const distB: number[] = [];
+  for (let i = 0; i < a.length; i++) {
+    for (let j = i + 1; j < a.length; j++) {
+      distA.push(distance(a[i], a[j], metric));
+      distB.push(distance(b[i], b[j], metric));
+    }
+  }
+
+  const binCount = Math.max(1, Math.floor(bins));
+  let min = Infinity;
+  let max = -Infinity;
+  for (const d of [...distA, ...distB]) {
+    if (d < min) min = d;
+    if (d > max) max = d;
+  }
+  const width = (max - min) / binCount;
+
+  const histogram = (values: number[]): number[] => {
+    const counts = Array(binCount).fill(0);
+    for (const v of values) {
+      const bin = width > 0 ? Math.min(binCount - 1, Math.floor((v - min) / width)) : 0;
+      counts[bin]++;
+    }
+    const total = values.length || 1;
+    return counts.map(c => c / total);
+  };
+
+  return [histogram(distA), histogram(distB)];
+}
+
+/**
+ * KL divergence D(p ‖ q) in bits, with epsilon smoothing so empty bins of
+ * q do not make it infinite
+ */
+function klDivergence(p: number[], q: number[]): number {
+  const norm = 1 + EPSILON * p.length;
+  let sum = 0;
+  for (let b = 0; b < p.length; b++) {
+    const pb = (p[b] + EPSILON) / norm;
+    const qb = (q[b] + EPSILON) / norm;
+    sum += pb * Math.log2(pb / qb);
+  }
+  return Math.max(0, sum);
+}
@@ -0,0 +1,315 @@
+/**
+ * Packing codes into compact typed arrays and measuring real byte sizes
+ */
+
+import {
+  CodeArray,
+  CompressionMethod,
+  CompressorModel,
+  EncodedVectors,
+} from './types';
+
+/**
+ * Pick the narrowest typed array that can hold every value exactly
+ */
+function allocateCodeArray(values: number[][], length: number): CodeArray {
+  let min = 0;
+  let max = 0;
+  let integral = true;
+  for (const row of values) {
+    for (const val of row) {
+      if (!Number.isInteger(val)) integral = false;
+      if (val < min) min = val;
+      if (val > max) max = val;
+    }
+  }
+
+  if (!integral) return new Float32Array(length);
+  if (min >= 0) {
+    if (max <= 0xff) return new Uint8Array(length);
+    if (max <= 0xffff) return new Uint16Array(length);
+    if (max <= 0xffffffff) return new Uint32Array(length);
+  } else {
+    if (min >= -0x80 && max <= 0x7f) return new Int8Array(length);
+    if (min >= -0x8000 && max <= 0x7fff) return new Int16Array(length);
+    if (min >= -0x80000000 && max <= 0x7fffffff) return new Int32Array(length);
+  }
+  return new Float64Array(length);
+}
+
+/**
+ * Pack per-vector codes (from encodeVectors) into a compact representation
+ * @param model - Model the codes were encoded with
+ * @param codes - One code array per vector
+ * @returns Header plus row-major typed-array codes
+ */
+export function packCodes(model: CompressorModel, codes: number[][]): EncodedVectors {
+  const hasLevels = model.method === CompressionMethod.BOUNDARY_AWARE;
+  const hasNorms = !!model.normQuantizer;
+  const rows = codes.map(c => c.slice(hasLevels ? 1 : 0, hasNorms ? -1 : c.length));
+  const levels = hasLevels ? Uint8Array.from(codes, c => c[0]) : undefined;
+  const norms = hasNorms ? packNorms(model.normQuantizer!.bits, codes) : undefined;
+
+  // Boundary-aware grid indices: each row at the bit width its level needs
+  const levelBits =
+    levels && (model.gridStep ?? 0) > 0
+      ? levelBitWidths(rows, levels, model.boundaryLevels ?? 2)
+      : undefined;
+  if (levelBits) {
+    return {
+      header: {
+        method: model.method,
+        count: codes.length,
+        dim: model.dim,
+        codeLength: model.dim,
+        gridStep: model.gridStep,
+        levelBits,
+      },
+      codes: packLevelRows(rows, levels!, levelBits),
+      levels,
+      norms,
+    };
+  }
+
+  // 4-bit scalar codes share bytes: low nibble first
+  const bitsPerCode = model.scalarQuantizer?.bits === 4 ? 4 : undefined;
+  const packedRows = bitsPerCode ? rows.map(packNibbles) : rows;
+  const codeLength = packedRows.length > 0 ? packedRows[0].length : 0;
+
+  // Sign bitsets keep whole 32-bit words whatever their values
+  const length = packedRows.length * codeLength;
+  const packed =
+    model.method === CompressionMethod.BINARY_QUANTIZATION
+      ? new Uint32Array(length)
+      : allocateCodeArray(packedRows, length);
+  for (let i = 0; i < packedRows.length; i++) packed.set(packedRows[i], i * codeLength);
+
+  return {
+    header: {
+      method: model.method,
+      count: codes.length,
+      dim: model.dim,
+      codeLength,
+      gridStep: model.gridStep,
+      bitsPerCode,
+    },
+    codes: packed,
+    levels,
+    norms,
+  };
+}
+
+/**
+ * Smallest two's complement width (1 to 32 bits) holding every grid index of
+ * each level, or undefined when some level needs more than 32 bits
+ */
+function levelBitWidths(
+  rows: number[][],
+  levels: Uint8Array,
+  levelCount: number
+): number[] | undefined {
+  let count = levelCount;
+  for (const l of levels) count = Math.max(count, l + 1);
+  const min = new Array(count).fill(0);
+  const max = new Array(count).fill(0);
+  rows.forEach((row, i) => {
+    const l = levels[i];
+    for (const idx of row) {
+      if (idx < min[l]) min[l] = idx;
+      if (idx > max[l]) max[l] = idx;
+    }
+  });
+
+  const widths: number[] = [];
+  for (let l = 0; l < count; l++) {
+    let bits = 1;
+    while (bits <= 32 && (min[l] < -(2 ** (bits - 1)) || max[l] > 2 ** (bits - 1) - 1)) bits++;
+    if (bits > 32) return undefined;
+    widths.push(bits);
+  }
+  return widths;
+}
+
+/**
+ * Bytes of one bit-packed row of `dim` indices
+ */
+function levelRowBytes(dim: number, bits: number): number {
+  return Math.ceil((dim * bits) / 8);
+}
+
+/**
+ * Bit-pack rows (least significant bit first), each at its level's width
+ * and starting on a byte boundary
+ */
+function packLevelRows(rows: number[][], levels: Uint8Array, levelBits: number[]): Uint8Array {
+  const dim = rows.length > 0 ? rows[0].length : 0;
+  let total = 0;
+  for (const l of levels) total += levelRowBytes(dim, levelBits[l]);
+
+  const out = new Uint8Array(total);
+  let offset = 0;
+  rows.forEach((row, i) => {
+    const bits = levelBits[levels[i]];
+    row.forEach((idx, d) => writeBits(out, offset * 8 + d * bits, idx >>> 0, bits));
+    offset += levelRowBytes(dim, bits);
+  });
+  return out;
+}
+
+/**
+ * Expand bit-packed rows into one signed grid index per element
+ */
+function unpackLevelRows(
+  bytes: ArrayLike<number>,
+  levels: Uint8Array,
+  levelBits: number[],
+  dim: number
+): Int32Array {
+  const out = new Int32Array(levels.length * dim);
+  let offset = 0;
+  levels.forEach((level, i) => {
+    const bits = levelBits[level];
+    for (let d = 0; d < dim; d++) {
+      const value = readBits(bytes, offset * 8 + d * bits, bits);
+      out[i * dim + d] = value >= 2 ** (bits - 1) ? value - 2 ** bits : value;
+    }
+    offset += levelRowBytes(dim, bits);
+  });
+  return out;
+}
+
+/**
+ * Write the low `bits` bits of an unsigned 32-bit value at a bit position
+ */
+function writeBits(out: Uint8Array, position: number, value: number, bits: number): void {
+  let remaining = bits;
+  while (remaining > 0) {
+    const shift = position & 7;
+    const take = Math.min(8 - shift, remaining);
+    out[position >> 3] |= (value & ((1 << take) - 1)) << shift;
+    value >>>= take;
+    position += take;
+    remaining -= take;
+  }
+}
+
+/**
+ * Read `bits` bits (up to 32) at a bit position as an unsigned value
+ */
+function readBits(bytes: ArrayLike<number>, position: number, bits: number): number {
+  let value = 0;
+  let read = 0;
+  while (read < bits) {
+    const shift = position & 7;
+    const take = Math.min(8 - shift, bits - read);
+    value += ((bytes[position >> 3] >> shift) & ((1 << take) - 1)) * 2 ** read;
+    position += take;
+    read += take;
+  }
+  return value;
+}
+
+/**
+ * Two 4-bit codes per byte (low nibble first)
+ */
+function packNibbles(row: number[]): number[] {
+  const bytes: number[] = [];
+  for (let d = 0; d < row.length; d += 2) bytes.push(row[d] | ((row[d + 1] ?? 0) << 4));
+  return bytes;
+}
+
+/**
+ * One code per element, row-major (count × codes per vector), expanding
+ * codes that share bytes or are bit-packed per level; levels and norms are
+ * not included
+ * @param encoded - Packed codes
+ */
+export function expandCodes(encoded: EncodedVectors): CodeArray {
+  const { count, dim, codeLength, bitsPerCode, levelBits } = encoded.header;
+  if (levelBits) return unpackLevelRows(encoded.codes, encoded.levels!, levelBits, dim);
+  if (bitsPerCode !== 4) return encoded.codes;
+
+  const expanded = new Uint8Array(count * dim);
+  for (let i = 0; i < count; i++) {
+    for (let d = 0; d < dim; d++) {
+      const byte = encoded.codes[i * codeLength + (d >> 1)];
+      expanded[i * dim + d] = d & 1 ? byte >> 4 : byte & 0x0f;
+    }
+  }
+  return expanded;
+}
+
+/**
+ * Trailing norm codes in the narrowest unsigned type for the bit width
+ */
+function packNorms(bits: number, codes: number[][]): Uint8Array | Uint16Array {
+  const norms = codes.map(c => c[c.length - 1]);
+  return bits <= 8 ? Uint8Array.from(norms) : Uint16Array.from(norms);
+}
+
+/**
+ * Unpack a compact representation back into per-vector codes
+ * @param encoded - Packed codes
+ * @returns One code array per vector (as accepted by decodeVectors)
+ */
+export function unpackCodes(encoded: EncodedVectors): number[][] {
+  const { count } = encoded.header;
+  const flat = expandCodes(encoded);
+  const codeLength = count > 0 ? flat.length / count : 0;
+  const codes: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const row = Array.from(flat.subarray(i * codeLength, (i + 1) * codeLength));
+    if (encoded.levels) row.unshift(encoded.levels[i]);
+    if (encoded.norms) row.push(encoded.norms[i]);
+    codes.push(row);
+  }
+  return codes;
+}
+
+/**
+ * Bytes taken by packed codes (plus per-vector levels and norms)
+ */
+export function encodedByteLength(encoded: EncodedVectors): number {
+  return (
+    encoded.codes.byteLength + (encoded.levels?.byteLength ?? 0) + (encoded.norms?.byteLength ?? 0)
+  );
+}
+
+/**
+ * Bytes of side data a model must ship with its codes (float32 codebooks,
+ * rotations, scalar ranges, binary scales); grids and seeded projections are
+ * regenerated from parameters
+ */
+export function modelByteLength(model: CompressorModel): number {
+  let floats = 0;
+  if (model.centroids) {
+    floats += model.centroids.length * model.dim;
+  }
+  if (model.productQuantizer) {
+    const pq = model.productQuantizer;
+    for (const book of pq.codebooks) floats += book.length * (book[0]?.length ?? 0);
+    if (pq.rotation) floats += pq.rotation.length * pq.dim;
+  }
+  if (model.scalarQuantizer) {
+    floats += model.scalarQuantizer.min.length + model.scalarQuantizer.max.length;
+  }
+  if (model.binaryQuantizer) {
+    floats += model.binaryQuantizer.scales.length;
+  }
+  if (model.residualQuantizer) {
+    for (const book of model.residualQuantizer.codebooks) floats += book.length * model.dim;
+  }
+  return floats * 4;
+}
+
+/**
+ * Compression ratio in real bytes: float32 input vs. packed codes plus model side data
+ * @param model - Model the codes were encoded with
+ * @param encoded - Packed codes
+ * @returns Compression ratio (1.0 for empty input)
+ */
+export function byteCompressionRatio(model: CompressorModel, encoded: EncodedVectors): number {
+  const originalBytes = encoded.header.count * model.dim * 4;
+  const compressedBytes = encodedByteLength(encoded) + modelByteLength(model);
+  return compressedBytes > 0 ? originalBytes / compressedBytes : 1.0;
+}
@@ -0,0 +1,82 @@
+/**
+ * Measuring candidate settings on a sample (shared by tuning and search)
+ */
+
+import { Vector, CompressionOptions, CompressionMetrics, CompressorModel } from './types';
+import { fitModel, encodeVectors, decodeVectors, referenceVectors } from './model';
+import { packCodes, encodedByteLength, modelByteLength } from './encoding';
+import { calculateMetrics } from './metrics';
+
+/** Maximum vectors settings are evaluated on */
+const SAMPLE_LIMIT = 500;
+
+/**
+ * Strided sample of at most `limit` vectors
+ */
+export function strideSample(vectors: Vector[], limit: number = SAMPLE_LIMIT): Vector[] {
+  const step = Math.max(1, Math.floor(vectors.length / limit));
+  const sample: Vector[] = [];
+  for (let i = 0; i < vectors.length && sample.length < limit; i += step) {
+    sample.push(vectors[i]);
+  }
+  return sample;
+}
+
+/**
+ * Fit, encode and measure one setting on a sample
+ *
+ * Recall is measured in the compression space (after normalization). The
+ * compression ratio uses real encoded bytes per vector, projected to
+ * `totalCount` vectors so codebook cost is amortized as it would be on the
+ * full dataset.
+ * @param sample - Sample vectors
+ * @param options - Fully resolved options of the setting
+ * @param totalCount - Size of the full dataset
+ * @returns Model, metrics and projected compression ratio
+ */
+export function evaluateSetting(
+  sample: Vector[],
+  options: Required<CompressionOptions>,
+  totalCount: number
+): { model: CompressorModel; metrics: CompressionMetrics; compressionRatio: number } {
+  const model = fitModel(sample, options);
+  const codes = encodeVectors(model, sample);
+  const metrics = calculateMetrics(referenceVectors(model, sample), decodeVectors(model, codes), options.k, {
+    metric: options.metric,
+    sampleSize: options.sampleSize,
+    sampling: options.sampling,
+    seed: options.seed,
+  });
+
+  const compressionRatio = projectedRatio(model, codes, totalCount);
+  metrics.compressionRatio = compressionRatio;
+
+  return { model, metrics, compressionRatio };
+}
+
+/**
+ * Fit and encode one setting on a sample and measure only its compression
+ * ratio (projected to `totalCount` vectors, as in evaluateSetting)
+ * @param sample - Sample vectors
+ * @param options - Fully resolved options of the setting
+ * @param totalCount - Size of the full dataset
+ * @returns Projected compression ratio
+ */
+export function measureCompressionRatio(
+  sample: Vector[],
+  options: Required<CompressionOptions>,
+  totalCount: number
+): number {
+  const model = fitModel(sample, options);
+  return projectedRatio(model, encodeVectors(model, sample), totalCount);
+}
+
+/**
+ * Real-byte compression ratio of sample codes, with per-vector bytes scaled
+ * to `totalCount` vectors and model side data counted once
+ */
+function projectedRatio(model: CompressorModel, codes: number[][], totalCount: number): number {
+  const bytesPerVector = encodedByteLength(packCodes(model, codes)) / codes.length;
+  const compressedBytes = totalCount * bytesPerVector + modelByteLength(model);
+  return compressedBytes > 0 ? (totalCount * model.dim * 4) / compressedBytes : 1.0;
+}
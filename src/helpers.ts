@@ -2,8 +2,9 @@
  * Helper functions for common use cases
  */
 
-import { Vector, CompressionMethod } from './types';
+import { Vector, CompressionMethod, CompressionOptions } from './types';
 import { VectorCompressor } from './compressor';
+import { tuneGridStepForRatio } from './autotune';
 
 /**
  * Quick compress - compress with sensible defaults
@@ -69,34 +70,32 @@ export function safeCompress(vectors: Vector[], maxAttempts: number = 3) {
 
 /**
  * Estimate optimal grid step for target compression ratio
+ *
+ * Bisects the grid step between the data's value range and a fine floor,
+ * measuring the real byte ratio of each step on a sample, and returns the
+ * finest step that reaches the target.
  * @param vectors - Sample vectors
  * @param targetRatio - Desired compression ratio (e.g., 10 for 10×)
- * @returns Estimated grid step
+ * @param options - Compression options to measure with (method: LATTICE or
+ *   BOUNDARY_AWARE, the default)
+ * @returns Estimated grid step (the finest reaching the highest ratio when the
+ *   target is out of reach)
  */
-export function estimateGridStep(vectors: Vector[], targetRatio: number): number {
+export function estimateGridStep(
+  vectors: Vector[],
+  targetRatio: number,
+  options: CompressionOptions = {}
+): number {
   if (vectors.length === 0) return 0.1;
 
-  // Take sample of vectors
-  const sample = vectors.slice(0, Math.min(100, vectors.length));
-
-  // Calculate variance
-  let sumVar = 0;
-  const dim = sample[0].length;
-
-  for (let d = 0; d < dim; d++) {
-    const vals = sample.map(v => v[d]);
-    const mean = vals.reduce((a, b) => a + b, 0) / vals.length;
-    const variance = vals.reduce((sum, val) => sum + (val - mean) ** 2, 0) / vals.length;
-    sumVar += variance;
+  const resolved = new VectorCompressor(options).getOptions();
+  if (
+    resolved.method !== CompressionMethod.LATTICE &&
+    resolved.method !== CompressionMethod.BOUNDARY_AWARE
+  ) {
+    throw new Error(`Grid steps only apply to lattice methods, got ${resolved.method}`);
   }
-
-  const avgStd = Math.sqrt(sumVar / dim);
-
-  // Heuristic: grid step proportional to std dev and inversely proportional to target ratio
-  // Higher ratio = coarser grid
-  const gridStep = (avgStd * 0.5) / Math.sqrt(targetRatio);
-
-  return Math.max(0.01, Math.min(1.0, gridStep));
+  return tuneGridStepForRatio(vectors, targetRatio, resolved);
 }
 
 /**
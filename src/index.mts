@@ -0,0 +1,8 @@
+/**
+ * ES module entry point
+ *
+ * Re-exports the CommonJS build so both entry points share one copy of the
+ * library, and parallel mode finds worker.js next to it in either case.
+ */
+
+export * from './index.js';
@@ -6,8 +6,57 @@
 
 export { VectorCompressor } from './compressor';
 export * from './types';
-export { calculateMetrics, detectRegime } from './metrics';
-export { normalizeVectors, euclideanDistance, findKNN } from './utils';
+export {
+  calculateMetrics,
+  detectRegime,
+  regimeScore,
+  DEFAULT_COLLAPSE_WEIGHTS,
+  DEFAULT_REGIME_THRESHOLDS,
+} from './metrics';
+export { calibrateRegimePolicy } from './calibration';
+export { calculateDistributionMetrics } from './distribution';
+export {
+  calculateTopologyMetrics,
+  vietorisRipsPersistence,
+  bottleneckDistance,
+} from './topology';
+export { normalizeVectors, euclideanDistance, dotProduct, distance, findKNN } from './utils';
+export { KNNIndex, topK } from './knn';
+export type { KNNIndexOptions } from './knn';
+export { trainKMeans, assignToCentroids } from './kmeans';
+export type { KMeansCodebook } from './kmeans';
+export { createRandomProjection, projectVectors } from './projection';
+export {
+  trainProductQuantizer,
+  trainOptimizedProductQuantizer,
+  encodeProductQuantizer,
+  decodeProductQuantizer,
+} from './pq';
+export {
+  trainScalarQuantizer,
+  encodeScalarQuantizer,
+  decodeScalarQuantizer,
+} from './scalar';
+export {
+  trainBinaryQuantizer,
+  encodeBinaryQuantizer,
+  decodeBinaryQuantizer,
+  hammingDistance,
+} from './binary';
+export {
+  trainResidualQuantizer,
+  encodeResidualQuantizer,
+  decodeResidualQuantizer,
+} from './residual';
+export { fitModel, encodeVectors, decodeVectors } from './model';
+export {
+  packCodes,
+  unpackCodes,
+  expandCodes,
+  encodedByteLength,
+  modelByteLength,
+  byteCompressionRatio,
+} from './encoding';
 export {
   quickCompress,
   safeCompress,
@@ -15,6 +64,17 @@ export {
   batchCompress,
   compareMethods,
 } from './helpers';
+export { serialize, deserialize, FORMAT_VERSION } from './serialization';
+export { encodeStream, StreamingMetrics } from './streaming';
+export { CompressedIndex } from './search';
+export { encodeParallel, calculateMetricsParallel } from './parallel';
+export {
+  solveCompressionRatio,
+  sweepParetoFrontier,
+  candidateSettings,
+  defaultSolverMethods,
+} from './solver';
+export type { EncodedChunk, StreamOptions } from './streaming';
 
 // Version
-export const VERSION = '0.1.0';
+export { VERSION } from './version';
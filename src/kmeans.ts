@@ -0,0 +1,181 @@
+/**
+ * K-means codebook training for vector quantization
+ */
+
+import { Vector } from './types';
+import { SeededRNG } from './utils';
+
+/**
+ * Trained k-means codebook
+ */
+export interface KMeansCodebook {
+  /** Centroid table (one row per code) */
+  centroids: Vector[];
+
+  /** Code (centroid index) assigned to each training vector */
+  codes: number[];
+}
+
+/**
+ * Squared Euclidean distance (avoids the sqrt in the assignment hot loop)
+ */
+function squaredDistance(a: Vector, b: Vector): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+  return sum;
+}
+
+/**
+ * Index of the nearest centroid and its squared distance
+ */
+function nearestCentroid(v: Vector, centroids: Vector[]): { idx: number; dist: number } {
+  let best = 0;
+  let bestDist = Infinity;
+  for (let c = 0; c < centroids.length; c++) {
+    const d = squaredDistance(v, centroids[c]);
+    if (d < bestDist) {
+      bestDist = d;
+      best = c;
+    }
+  }
+  return { idx: best, dist: bestDist };
+}
+
+/**
+ * k-means++ seeding: each new centroid is drawn with probability
+ * proportional to its squared distance from the closest chosen centroid
+ */
+function seedCentroids(vectors: Vector[], k: number, rng: SeededRNG): Vector[] {
+  const centroids: Vector[] = [vectors[Math.floor(rng.next() * vectors.length)].slice()];
+  const minDist = vectors.map(v => squaredDistance(v, centroids[0]));
+
+  while (centroids.length < k) {
+    const total = minDist.reduce((a, b) => a + b, 0);
+
+    let chosen = 0;
+    if (total === 0) {
+      // All remaining points coincide with a centroid - pick uniformly
+      chosen = Math.floor(rng.next() * vectors.length);
+    } else {
+      let target = rng.next() * total;
+      for (let i = 0; i < vectors.length; i++) {
+        target -= minDist[i];
+        if (target <= 0) {
+          chosen = i;
+          break;
+        }
+        chosen = i;
+      }
+    }
+
+    const centroid = vectors[chosen].slice();
+    centroids.push(centroid);
+    for (let i = 0; i < vectors.length; i++) {
+      const d = squaredDistance(vectors[i], centroid);
+      if (d < minDist[i]) minDist[i] = d;
+    }
+  }
+
+  return centroids;
+}
+
+/**
+ * Assign each vector to its nearest centroid
+ * @param vectors - Vectors to encode
+ * @param centroids - Centroid table
+ * @returns Centroid index for each vector
+ */
+export function assignToCentroids(vectors: Vector[], centroids: Vector[]): number[] {
+  if (centroids.length === 0) return vectors.map(() => 0);
+  return vectors.map(v => nearestCentroid(v, centroids).idx);
+}
+
+/**
+ * Train a k-means codebook (k-means++ seeding followed by Lloyd iterations)
+ * @param vectors - Training vectors
+ * @param clusterCount - Requested number of centroids (clamped to vectors.length)
+ * @param seed - Random seed for reproducible seeding
+ * @param maxIterations - Maximum Lloyd iterations (default: 25)
+ * @returns Centroid table and per-vector codes
+ */
+export function trainKMeans(
+  vectors: Vector[],
+  clusterCount: number,
+  seed: number,
+  maxIterations: number = 25
+): KMeansCodebook {
+  if (vectors.length === 0) {
+    return { centroids: [], codes: [] };
+  }
+
+  const k = Math.max(1, Math.min(Math.floor(clusterCount), vectors.length));
+  const dim = vectors[0].length;
+  const rng = new SeededRNG(seed);
+
+  const centroids = seedCentroids(vectors, k, rng);
+  let codes = assignToCentroids(vectors, centroids);
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    // Update step: move each centroid to the mean of its members
+    const sums: number[][] = Array.from({ length: k }, () => new Array(dim).fill(0));
+    const counts = new Array(k).fill(0);
+    for (let i = 0; i < vectors.length; i++) {
+      const c = codes[i];
+      counts[c]++;
+      const v = vectors[i];
+      for (let d = 0; d < dim; d++) sums[c][d] += v[d];
+    }
+
+    const empty: number[] = [];
+    for (let c = 0; c < k; c++) {
+      if (counts[c] > 0) {
+        centroids[c] = sums[c].map(s => s / counts[c]);
+      } else {
+        empty.push(c);
+      }
+    }
+
+    // Empty clusters: re-seed each on the vector farthest from its updated
+    // centroid and take that vector out of its old cluster's mean. Vectors
+    // already used as re-seeds are skipped (k <= vectors.length, so one is
+    // always left)
+    const reseeded = new Set<number>();
+    for (const c of empty) {
+      let worst = -1;
+      let worstDist = -1;
+      for (let i = 0; i < vectors.length; i++) {
+        if (reseeded.has(i)) continue;
+        const d = squaredDistance(vectors[i], centroids[codes[i]]);
+        if (d > worstDist) {
+          worstDist = d;
+          worst = i;
+        }
+      }
+
+      const v = vectors[worst];
+      const old = codes[worst];
+      counts[old]--;
+      if (counts[old] > 0) {
+        for (let d = 0; d < dim; d++) sums[old][d] -= v[d];
+        centroids[old] = sums[old].map(s => s / counts[old]);
+      }
+      centroids[c] = v.slice();
+      codes[worst] = c;
+      reseeded.add(worst);
+    }
+
+    // Assignment step
+    const next = assignToCentroids(vectors, centroids);
+    let changed = 0;
+    for (let i = 0; i < next.length; i++) {
+      if (next[i] !== codes[i]) changed++;
+    }
+    codes = next;
+    if (changed === 0) break;
+  }
+
+  return { centroids, codes };
+}
@@ -0,0 +1,249 @@
+/**
+ * Exact k-nearest-neighbor engine over typed-array storage
+ */
+
+import { Vector, SearchResult, DistanceMetric } from './types';
+
+/**
+ * Options for KNNIndex
+ */
+export interface KNNIndexOptions {
+  /** Distance used to rank neighbors (default: EUCLIDEAN) */
+  metric?: DistanceMetric;
+
+  /**
+   * Precompute squared norms so each distance is ‖q‖² + ‖x‖² − 2q·x
+   * (one multiply-add per dimension; best for normalized data). Always
+   * enabled for COSINE.
+   */
+  precomputeNorms?: boolean;
+}
+
+/**
+ * Indices of the k smallest values, ascending (ties broken by lower index)
+ *
+ * Bounded max-heap selection: O(n log k) with no per-element allocation.
+ * @param values - Scores (e.g. distances)
+ * @param k - Number of entries to keep
+ * @returns Indices of the k smallest values, smallest first
+ */
+export function topK(values: ArrayLike<number>, k: number): number[] {
+  const size = Math.min(Math.max(0, Math.floor(k)), values.length);
+  if (size === 0) return [];
+
+  const heapIdx = new Int32Array(size);
+  const heapVal = new Float64Array(size);
+  let filled = 0;
+
+  // (value, index) ordering so results are deterministic on ties
+  const greater = (va: number, ia: number, vb: number, ib: number): boolean =>
+    va > vb || (va === vb && ia > ib);
+
+  const siftDown = (pos: number): void => {
+    const v = heapVal[pos];
+    const i = heapIdx[pos];
+    for (;;) {
+      let child = 2 * pos + 1;
+      if (child >= filled) break;
+      if (
+        child + 1 < filled &&
+        greater(heapVal[child + 1], heapIdx[child + 1], heapVal[child], heapIdx[child])
+      ) {
+        child++;
+      }
+      if (!greater(heapVal[child], heapIdx[child], v, i)) break;
+      heapVal[pos] = heapVal[child];
+      heapIdx[pos] = heapIdx[child];
+      pos = child;
+    }
+    heapVal[pos] = v;
+    heapIdx[pos] = i;
+  };
+
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (filled < size) {
+      // Sift up
+      let pos = filled++;
+      while (pos > 0) {
+        const parent = (pos - 1) >> 1;
+        if (!greater(v, i, heapVal[parent], heapIdx[parent])) break;
+        heapVal[pos] = heapVal[parent];
+        heapIdx[pos] = heapIdx[parent];
+        pos = parent;
+      }
+      heapVal[pos] = v;
+      heapIdx[pos] = i;
+    } else if (greater(heapVal[0], heapIdx[0], v, i)) {
+      heapVal[0] = v;
+      heapIdx[0] = i;
+      siftDown(0);
+    }
+  }
+
+  // Pop largest to the back
+  const result = new Array<number>(size);
+  for (let end = size - 1; end >= 0; end--) {
+    result[end] = heapIdx[0];
+    filled--;
+    heapVal[0] = heapVal[filled];
+    heapIdx[0] = heapIdx[filled];
+    siftDown(0);
+  }
+  return result;
+}
+
+/**
+ * 1-based rank of an entry among all scores, in topK() order
+ * (lower score first, ties broken by lower index)
+ * @param scores - Scores of every candidate
+ * @param target - Index whose rank to compute
+ */
+export function rankOf(scores: ArrayLike<number>, target: number): number {
+  const s = scores[target];
+  let rank = 1;
+  for (let i = 0; i < scores.length; i++) {
+    if (scores[i] < s || (scores[i] === s && i < target)) rank++;
+  }
+  return rank;
+}
+
+/**
+ * Brute-force exact KNN over contiguous Float32Array storage
+ *
+ * @example
+ * ```typescript
+ * const index = new KNNIndex(vectors);
+ * const neighbors = index.search(query, 10);
+ * ```
+ */
+export class KNNIndex {
+  readonly dim: number;
+  readonly size: number;
+  readonly metric: DistanceMetric;
+
+  private readonly data: Float32Array;
+  private readonly norms: Float32Array | null;
+  private readonly query: Float32Array;
+  private readonly distances: Float64Array;
+
+  constructor(vectors: Vector[], options: KNNIndexOptions = {}) {
+    this.size = vectors.length;
+    this.dim = vectors.length > 0 ? vectors[0].length : 0;
+    this.data = new Float32Array(this.size * this.dim);
+    for (let i = 0; i < this.size; i++) {
+      if (vectors[i].length !== this.dim) {
+        throw new Error(`Vector ${i} has dimension ${vectors[i].length}, expected ${this.dim}`);
+      }
+      this.data.set(vectors[i], i * this.dim);
+    }
+
+    this.metric = options.metric ?? DistanceMetric.EUCLIDEAN;
+    this.norms = null;
+    if (options.precomputeNorms || this.metric === DistanceMetric.COSINE) {
+      const norms = new Float32Array(this.size);
+      for (let i = 0; i < this.size; i++) norms[i] = squaredNorm(this.data, i * this.dim, this.dim);
+      this.norms = norms;
+    }
+
+    this.query = new Float32Array(this.dim);
+    this.distances = new Float64Array(this.size);
+  }
+
+  /**
+   * Indices of the k nearest stored vectors, nearest first
+   * @param query - Query vector (same dimension as the index)
+   * @param k - Number of neighbors
+   */
+  search(query: Vector, k: number): number[] {
+    return topK(this.scan(query), k);
+  }
+
+  /**
+   * Nearest neighbors with their distances under the index metric
+   * @param query - Query vector (same dimension as the index)
+   * @param k - Number of neighbors
+   */
+  searchWithDistances(query: Vector, k: number): SearchResult {
+    const scores = this.scan(query);
+    const ids = topK(scores, k);
+    const euclidean = this.metric === DistanceMetric.EUCLIDEAN;
+    return {
+      ids,
+      distances: ids.map(i => (euclidean ? Math.sqrt(Math.max(0, scores[i])) : scores[i])),
+    };
+  }
+
+  /**
+   * Ranking score from the query to every stored vector: squared distance
+   * for EUCLIDEAN, the metric's distance otherwise (the returned buffer is
+   * reused by the next call, so copy it to keep it)
+   * @param query - Query vector (same dimension as the index)
+   */
+  scan(query: Vector): Float64Array {
+    if (query.length !== this.dim) {
+      throw new Error(`Query dimension ${query.length} does not match index dimension ${this.dim}`);
+    }
+
+    // Round the query to float32 like the stored vectors, so a stored
+    // vector queried against itself is at distance exactly 0
+    const q = this.query;
+    q.set(query);
+    const { data, dim, norms, distances } = this;
+
+    switch (this.metric) {
+      case DistanceMetric.COSINE: {
+        const qNorm = Math.sqrt(squaredNorm(q, 0, dim));
+        for (let i = 0, base = 0; i < this.size; i++, base += dim) {
+          const denom = qNorm * Math.sqrt(norms![i]);
+          distances[i] = denom > 0 ? 1 - dot(q, data, base, dim) / denom : 1;
+        }
+        break;
+      }
+
+      case DistanceMetric.INNER_PRODUCT:
+        for (let i = 0, base = 0; i < this.size; i++, base += dim) {
+          distances[i] = -dot(q, data, base, dim);
+        }
+        break;
+
+      case DistanceMetric.L1:
+        for (let i = 0, base = 0; i < this.size; i++, base += dim) {
+          let sum = 0;
+          for (let d = 0; d < dim; d++) sum += Math.abs(q[d] - data[base + d]);
+          distances[i] = sum;
+        }
+        break;
+
+      default:
+        if (norms) {
+          const qNorm = squaredNorm(q, 0, dim);
+          for (let i = 0, base = 0; i < this.size; i++, base += dim) {
+            distances[i] = qNorm + norms[i] - 2 * dot(q, data, base, dim);
+          }
+        } else {
+          for (let i = 0, base = 0; i < this.size; i++, base += dim) {
+            let sum = 0;
+            for (let d = 0; d < dim; d++) {
+              const diff = q[d] - data[base + d];
+              sum += diff * diff;
+            }
+            distances[i] = sum;
+          }
+        }
+    }
+    return distances;
+  }
+}
+
+function dot(q: Float32Array, data: Float32Array, offset: number, dim: number): number {
+  let sum = 0;
+  for (let d = 0; d < dim; d++) sum += q[d] * data[offset + d];
+  return sum;
+}
+
+function squaredNorm(data: Float32Array, offset: number, dim: number): number {
+  let sum = 0;
+  for (let d = 0; d < dim; d++) sum += data[offset + d] * data[offset + d];
+  return sum;
+}
@@ -0,0 +1,101 @@
+/**
+ * Small dense linear algebra helpers (rotations, eigen decomposition)
+ */
+
+import { Vector } from './types';
+
+/**
+ * Identity matrix
+ */
+export function identityMatrix(n: number): Vector[] {
+  return Array.from({ length: n }, (_, i) => {
+    const row = new Array(n).fill(0);
+    row[i] = 1;
+    return row;
+  });
+}
+
+/**
+ * Multiply a matrix (rows) by a vector: y = M x
+ */
+export function multiplyMatrixVector(m: Vector[], x: Vector): Vector {
+  return m.map(row => {
+    let sum = 0;
+    for (let i = 0; i < x.length; i++) sum += row[i] * x[i];
+    return sum;
+  });
+}
+
+/**
+ * Multiply the transpose of a matrix by a vector: y = Mᵀ x
+ */
+export function multiplyTransposeVector(m: Vector[], x: Vector): Vector {
+  const cols = m.length > 0 ? m[0].length : 0;
+  const y = new Array(cols).fill(0);
+  for (let r = 0; r < m.length; r++) {
+    const xr = x[r];
+    const row = m[r];
+    for (let c = 0; c < cols; c++) y[c] += row[c] * xr;
+  }
+  return y;
+}
+
+/**
+ * Eigen decomposition of a symmetric matrix (cyclic Jacobi rotations)
+ * @param matrix - Symmetric n × n matrix
+ * @param maxSweeps - Maximum Jacobi sweeps (default: 50)
+ * @returns Eigenvalues (descending) and matching unit eigenvectors (as rows)
+ */
+export function symmetricEigen(
+  matrix: Vector[],
+  maxSweeps: number = 50
+): { values: number[]; vectors: Vector[] } {
+  const n = matrix.length;
+  const a = matrix.map(row => row.slice());
+  const v = identityMatrix(n);
+
+  for (let sweep = 0; sweep < maxSweeps; sweep++) {
+    let off = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) off += a[p][q] * a[p][q];
+    }
+    if (off < 1e-20) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        const apq = a[p][q];
+        if (Math.abs(apq) < 1e-300) continue;
+
+        const theta = (a[q][q] - a[p][p]) / (2 * apq);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  const order = Array.from({ length: n }, (_, i) => i).sort((i, j) => a[j][j] - a[i][i]);
+  return {
+    values: order.map(i => a[i][i]),
+    vectors: order.map(i => v.map(row => row[i])),
+  };
+}
@@ -2,158 +2,381 @@
  * Quality metrics calculation for compressed vectors
  */
 
-import { Vector, CompressionMetrics, Regime } from './types';
 import {
+  Vector,
+  CompressionMetrics,
+  MetricsOptions,
+  MetricConfidence,
+  ConfidenceInterval,
+  DistanceMetric,
+  SamplingStrategy,
+  Regime,
+  CollapseWeights,
+  RegimeThresholds,
+  RegimePolicy,
+} from './types';
+import {
+  SeededRNG,
   euclideanDistance,
-  findKNN,
   calculateKendallTau,
   countUniqueVectors,
+  quantile,
 } from './utils';
+import { KNNIndex, topK, rankOf } from './knn';
+import { calculateDistributionMetrics } from './distribution';
+import { calculateTopologyMetrics } from './topology';
 
 /**
- * Calculate comprehensive quality metrics
- * @param original - Original uncompressed vectors
+ * Neighbor and distortion measurements for one sampled query
+ * (computed independently per query so sampling can be sharded)
+ */
+export interface QueryMeasurement {
+  recall5: number;
+  recall10: number;
+  /** Tie-aware precision of the compressed 10-neighborhood */
+  precision10: number;
+  /** Per-query trustworthiness term (Venna & Kaski) */
+  trustworthiness: number;
+  /** Per-query continuity term (Venna & Kaski) */
+  continuity: number;
+  mrr: number;
+  mse: number;
+  localDistortion: number;
+  /** Squared error per dimension (empty for reduced-dimension outputs) */
+  perDimSquaredError: number[];
+  /** Recall at each of K_VALUES (for k-variance) */
+  recallAtK: number[];
+}
+
+/** Default sampled query budget */
+const SAMPLE_LIMIT = 200;
+
+/** Vectors of the sample whose pairwise distances feed Kendall's Tau */
+const KENDALL_LIMIT = 200;
+
+/** Neighborhood sizes for k-variance */
+const K_VALUES = [3, 7, 15, 30];
+
+/**
+ * Default regime score per unit of topological distortion: bottleneck
+ * distances of 7.5%, 17.5% and 30% of the sample diameter reach
+ * PRE_COLLAPSE, COLLAPSE and POST_COLLAPSE
+ */
+const TOPOLOGY_SCALE = 2;
+
+/**
+ * Default collapse index weights
+ */
+export const DEFAULT_COLLAPSE_WEIGHTS: CollapseWeights = {
+  recall5: 0.35,
+  precision10: 0.25,
+  kVariance: 0.20,
+  centroidSurvival: 0.20,
+};
+
+/**
+ * Default regime score thresholds
+ */
+export const DEFAULT_REGIME_THRESHOLDS: RegimeThresholds = {
+  preCollapse: 0.15,
+  collapse: 0.35,
+  postCollapse: 0.60,
+};
+
+/**
+ * Indices of the vectors used as metric queries
+ * @param original - Original vectors
  * @param compressed - Compressed vectors
- * @param k - Neighbor count for metrics (default: 10)
- * @returns Quality metrics including collapse detection signals
+ * @param options - Sample size, strategy and seed
+ * @returns Ascending query indices (at most sampleSize)
  */
-export function calculateMetrics(
+export function sampleQueries(
   original: Vector[],
   compressed: Vector[],
-  k: number = 10
-): CompressionMetrics {
-  if (!original || !compressed || original.length === 0) {
-    return {
-      recall5: 0,
-      recall10: 0,
-      mrr: 0,
-      mse: 0,
-      localDistortion: 0,
-      trustworthiness: 0,
-      kendallTau: 0,
-      compressionRatio: 0,
-      precision10: 0,
-      kVariance: 0,
-      centroidSurvivalRatio: 0,
-      perDimensionMSE: [],
-      dimensionCollapseRatio: 1,
-    };
-  }
+  options: MetricsOptions = {}
+): number[] {
+  const n = Math.min(original.length, compressed.length);
+  const limit = Math.max(1, Math.floor(options.sampleSize ?? SAMPLE_LIMIT));
+  const rng = new SeededRNG(options.seed ?? 42);
+  let indices: number[];
 
-  // Sample for performance (max 200 points)
-  const SAMPLE_LIMIT = 200;
-  const step = Math.max(1, Math.floor(original.length / SAMPLE_LIMIT));
-  let count = 0;
+  if (limit >= n) {
+    indices = Array.from({ length: n }, (_, i) => i);
+  } else {
+    switch (options.sampling ?? SamplingStrategy.STRIDE) {
+      case SamplingStrategy.RANDOM: {
+        // Partial Fisher-Yates shuffle
+        const pool = Array.from({ length: n }, (_, i) => i);
+        for (let i = 0; i < limit; i++) {
+          const j = i + Math.floor(rng.next() * (n - i));
+          [pool[i], pool[j]] = [pool[j], pool[i]];
+        }
+        indices = pool.slice(0, limit).sort((a, b) => a - b);
+        break;
+      }
 
-  let recall5Sum = 0;
-  let recall10Sum = 0;
-  let mrrSum = 0;
-  let mseSum = 0;
-  let localDistortionSum = 0;
-  let trustworthinessSum = 0;
-  let precision10Sum = 0;
+      case SamplingStrategy.STRATIFIED:
+        indices = Array.from({ length: limit }, (_, s) => {
+          const start = Math.floor((s * n) / limit);
+          const end = Math.floor(((s + 1) * n) / limit);
+          return start + Math.floor(rng.next() * (end - start));
+        });
+        break;
+
+      default: {
+        const step = Math.max(1, Math.floor(n / limit));
+        indices = [];
+        for (let i = 0; i < n && indices.length < limit; i += step) indices.push(i);
+      }
+    }
+  }
 
-  // For k-variance: track recall at different k values
-  const kValues = [3, 7, 15, 30];
-  const recallAtK: number[][] = kValues.map(() => []);
+  return indices.filter(i => original[i] && compressed[i]);
+}
 
-  // For per-dimension MSE
+/**
+ * Measure neighbor preservation and distortion for a set of queries
+ *
+ * Each query is excluded from its own neighbor sets in both spaces. Ranks
+ * beyond the retrieved neighbors are computed exactly over all vectors.
+ * @param original - Original vectors
+ * @param compressed - Compressed vectors
+ * @param queries - Query indices (from sampleQueries)
+ * @param metric - Distance used to rank neighbors (default: EUCLIDEAN)
+ * @param k - Neighborhood size for trustworthiness, continuity and MRR (default: 10)
+ * @returns One measurement per query, in the same order
+ */
+export function measureQueries(
+  original: Vector[],
+  compressed: Vector[],
+  queries: number[],
+  metric: DistanceMetric = DistanceMetric.EUCLIDEAN,
+  k: number = 10
+): QueryMeasurement[] {
   const dim = original[0].length;
-  const perDimMSE = Array(dim).fill(0);
+  const n = original.length;
+
+  // Neighborhood size must leave room for intrusions: k < (2n - 1) / 3
+  const kEff = Math.max(1, Math.min(Math.floor(k), Math.floor((2 * n - 2) / 3)));
+  const rankNorm = kEff * (2 * n - 3 * kEff - 1);
+  const mrrNorm = harmonic(kEff);
+  // Every vector but the query itself, so small sets never retrieve self
+  const retrieved = Math.min(Math.max(30, kEff), n - 1);
 
-  for (let i = 0; i < original.length; i += step) {
+  // Reduced-dimension outputs (random projection) live in a different space:
+  // query them with their own compressed vector and measure distortion on
+  // pairwise distances rather than coordinates
+  const reduced = compressed[0].length !== dim;
+
+  // Typed-array indexes, built once for all sampled queries. Neighbors are
+  // ranked by the chosen metric; distortion stays Euclidean
+  const originalIndex = new KNNIndex(original, { metric });
+  const compressedIndex = new KNNIndex(compressed, { metric });
+
+  return queries.map(i => {
     const query = original[i];
     const compVec = compressed[i];
 
-    if (!compVec || !query) continue;
+    // Ground Truth: NN in Original Space (self excluded)
+    const origScores = originalIndex.scan(query);
+    origScores[i] = Infinity;
+    const trueNN = topK(origScores, retrieved);
 
-    // Ground Truth: NN in Original Space
-    const trueNN = findKNN(query, original, 30);
+    // Experiment: NN in Compressed Space (self excluded)
+    const compScores = compressedIndex.scan(reduced ? compVec : query);
+    const selfScore = compScores[i];
+    compScores[i] = Infinity;
+    const compNN = topK(compScores, retrieved);
 
-    // Experiment: NN in Compressed Space
-    const compNN = findKNN(query, compressed, 30);
+    // Exact 1-based ranks, from the retrieved lists when possible
+    const trueRank = (j: number): number => {
+      const pos = trueNN.indexOf(j);
+      return pos !== -1 ? pos + 1 : rankOf(origScores, j);
+    };
+    const compRank = (j: number): number => {
+      const pos = compNN.indexOf(j);
+      return pos !== -1 ? pos + 1 : rankOf(compScores, j);
+    };
 
-    // Recall@5
-    const true5 = new Set(trueNN.slice(0, 5));
-    const comp5 = new Set(compNN.slice(0, 5));
-    let intersection5 = 0;
-    comp5.forEach(id => {
-      if (true5.has(id)) intersection5++;
-    });
-    recall5Sum += intersection5 / 5;
+    const overlap = (a: number[], b: number[], size: number): number => {
+      const set = new Set(a.slice(0, size));
+      return b.slice(0, size).filter(id => set.has(id)).length;
+    };
+
+    // Recall@5 / Recall@10
+    const intersection5 = overlap(trueNN, compNN, 5);
+    const intersection10 = overlap(trueNN, compNN, 10);
 
-    // Recall@10
+    // Precision@10: share of the compressed 10-neighborhood (including
+    // every vector tied with the 10th) that are true neighbors; collapsed
+    // codes inflate the neighborhood with false neighbors
+    let precision10 = 0;
     const true10 = new Set(trueNN.slice(0, 10));
-    const comp10 = new Set(compNN.slice(0, 10));
-    let intersection10 = 0;
-    comp10.forEach(id => {
-      if (true10.has(id)) intersection10++;
+    if (compNN.length > 0) {
+      const radius = compScores[compNN[Math.min(10, compNN.length) - 1]];
+      let ball = 0;
+      let hits = 0;
+      for (let j = 0; j < compScores.length; j++) {
+        if (j !== i && compScores[j] <= radius) {
+          ball++;
+          if (true10.has(j)) hits++;
+        }
+      }
+      precision10 = hits / ball;
+    }
+
+    // Trustworthiness: penalize compressed neighbors that are not true
+    // neighbors by how far they rank in the original space
+    const trueK = new Set(trueNN.slice(0, kEff));
+    const compK = new Set(compNN.slice(0, kEff));
+    let intrusion = 0;
+    compK.forEach(j => {
+      if (!trueK.has(j)) intrusion += trueRank(j) - kEff;
     });
-    recall10Sum += intersection10 / 10;
 
-    // Precision@10: How many compressed neighbors are true neighbors?
-    precision10Sum += intersection10 / 10;
+    // Continuity: penalize true neighbors missing from the compressed
+    // neighborhood by how far they rank in the compressed space
+    let extrusion = 0;
+    trueK.forEach(j => {
+      if (!compK.has(j)) extrusion += compRank(j) - kEff;
+    });
+
+    // MRR over all true neighbors: reciprocal compressed ranks of the true
+    // k-neighborhood, normalized so a perfect ranking scores 1
+    let reciprocal = 0;
+    trueK.forEach(j => {
+      reciprocal += 1 / compRank(j);
+    });
 
-    // Trustworthiness @ K=10
-    trustworthinessSum += intersection10 / 10;
+    let mse = 0;
+    let localDistortion = 0;
+    const perDimSquaredError: number[] = [];
+
+    if (reduced) {
+      // Global Distortion: squared error of distances to true neighbors
+      let distErrSum = 0;
+      for (const j of trueNN) {
+        const origDist = euclideanDistance(query, original[j]);
+        const compDist = euclideanDistance(compVec, compressed[j]);
+        distErrSum += (origDist - compDist) ** 2;
+      }
+      mse = trueNN.length > 0 ? distErrSum / trueNN.length : 0;
 
-    // MRR (Mean Reciprocal Rank)
-    const target = trueNN[1]; // 0 is self
-    if (target !== undefined) {
-      const rank = compNN.indexOf(target);
-      if (rank !== -1) {
-        mrrSum += 1 / (rank + 1);
+      // Local Distortion: distance error to the nearest true neighbor
+      const nn = trueNN[0];
+      if (nn !== undefined) {
+        localDistortion = Math.abs(
+          euclideanDistance(query, original[nn]) - euclideanDistance(compVec, compressed[nn])
+        );
       }
     } else {
-      mrrSum += 1;
-    }
+      // Global Distortion (MSE)
+      mse = euclideanDistance(query, compVec) ** 2;
 
-    // Global Distortion (MSE)
-    const sqDist = euclideanDistance(query, compVec) ** 2;
-    mseSum += sqDist;
+      // Per-dimension MSE
+      for (let d = 0; d < dim; d++) {
+        perDimSquaredError.push((query[d] - compVec[d]) ** 2);
+      }
 
-    // Per-dimension MSE
-    for (let d = 0; d < dim; d++) {
-      perDimMSE[d] += (query[d] - compVec[d]) ** 2;
+      // Local Distortion: distance to the nearest compressed vector
+      // (usually the query's own reconstruction)
+      const nearest =
+        compNN.length === 0 || selfScore <= compScores[compNN[0]] ? i : compNN[0];
+      localDistortion = euclideanDistance(query, compressed[nearest]);
     }
 
-    // Local Distortion
-    const nearestInCompressed = compressed[compNN[0]];
-    const distToNN = euclideanDistance(query, nearestInCompressed);
-    localDistortionSum += distToNN;
-
     // Calculate recall at different k for k-variance
-    for (let ki = 0; ki < kValues.length; ki++) {
-      const kVal = kValues[ki];
-      const trueK = new Set(trueNN.slice(0, kVal));
-      const compK = new Set(compNN.slice(0, kVal));
-      let intersectionK = 0;
-      compK.forEach(id => {
-        if (trueK.has(id)) intersectionK++;
-      });
-      recallAtK[ki].push(intersectionK / kVal);
-    }
+    const recallAtK = K_VALUES.map(kVal => overlap(trueNN, compNN, kVal) / kVal);
+
+    return {
+      recall5: intersection5 / 5,
+      recall10: intersection10 / 10,
+      precision10,
+      trustworthiness: rankNorm > 0 ? 1 - (2 * intrusion) / rankNorm : 1,
+      continuity: rankNorm > 0 ? 1 - (2 * extrusion) / rankNorm : 1,
+      mrr: trueK.size > 0 ? reciprocal / mrrNorm : 1,
+      mse,
+      localDistortion,
+      perDimSquaredError,
+      recallAtK,
+    };
+  });
+}
+
+/**
+ * Harmonic number H(k) = 1 + 1/2 + ... + 1/k
+ */
+function harmonic(k: number): number {
+  let sum = 0;
+  for (let r = 1; r <= k; r++) sum += 1 / r;
+  return sum;
+}
+
+/**
+ * Combine per-query measurements with dataset-level signals
+ *
+ * Measurements are summed in the order given, so the result is identical
+ * however they were computed (sequentially or sharded across workers).
+ * @param original - Original vectors
+ * @param compressed - Compressed vectors
+ * @param queries - Sampled query indices
+ * @param measurements - Per-query measurements, in query order
+ * @param options - Metric, bootstrap, distribution and topology metric options
+ * @returns Quality metrics including collapse detection signals
+ */
+export function aggregateMetrics(
+  original: Vector[],
+  compressed: Vector[],
+  queries: number[],
+  measurements: QueryMeasurement[],
+  options: MetricsOptions = {}
+): CompressionMetrics {
+  const count = measurements.length;
+  const dim = original[0].length;
+  const reduced = compressed[0].length !== dim;
 
-    count++;
+  let recall5Sum = 0;
+  let recall10Sum = 0;
+  let precision10Sum = 0;
+  let trustworthinessSum = 0;
+  let continuitySum = 0;
+  let mrrSum = 0;
+  let mseSum = 0;
+  let localDistortionSum = 0;
+  const perDimMSE = Array(dim).fill(0);
+  const recallAtK: number[][] = K_VALUES.map(() => []);
+
+  for (const m of measurements) {
+    recall5Sum += m.recall5;
+    recall10Sum += m.recall10;
+    precision10Sum += m.precision10;
+    trustworthinessSum += m.trustworthiness;
+    continuitySum += m.continuity;
+    mrrSum += m.mrr;
+    mseSum += m.mse;
+    localDistortionSum += m.localDistortion;
+    for (let d = 0; d < m.perDimSquaredError.length; d++) perDimMSE[d] += m.perDimSquaredError[d];
+    for (let ki = 0; ki < K_VALUES.length; ki++) recallAtK[ki].push(m.recallAtK[ki]);
   }
 
-  // Calculate Structure Preservation (Kendall Tau)
-  const kt = calculateKendallTau(original, compressed, 40);
+  // Calculate Structure Preservation (Kendall Tau) on pairs of sampled vectors
+  const kendallStep = Math.max(1, Math.ceil(queries.length / KENDALL_LIMIT));
+  const kt = calculateKendallTau(
+    original,
+    compressed,
+    queries.filter((_, i) => i % kendallStep === 0),
+    options.metric
+  );
 
   // Safety checks for NaNs
   const safeDiv = (n: number, d: number) => (d === 0 || isNaN(n)) ? 0 : n / d;
 
   // Calculate k-variance
-  const kMeans = recallAtK.map(arr => arr.reduce((a, b) => a + b, 0) / arr.length);
-  const kVariances = recallAtK.map((arr, i) => {
-    const mean = kMeans[i];
-    const variance = arr.reduce((sum, val) => sum + (val - mean) ** 2, 0) / arr.length;
-    return variance;
-  });
-  const kVariance = kVariances.reduce((a, b) => a + b, 0) / kVariances.length;
+  const kVariance = kVarianceOf(recallAtK);
 
   // Calculate per-dimension MSE
-  const perDimensionMSE = perDimMSE.map(v => v / count);
+  // (not defined when the compressed space has different dimensions)
+  const perDimensionMSE = reduced ? [] : perDimMSE.map(v => v / count);
 
   // Calculate dimension collapse ratio
   const maxDimMSE = Math.max(...perDimensionMSE);
@@ -170,12 +393,32 @@ export function calculateMetrics(
   // Calculate collapse index (composite score)
   const recall5 = safeDiv(recall5Sum, count);
   const precision10 = safeDiv(precision10Sum, count);
-  
-  const collapseIndex = 
-    0.35 * (1 - recall5) +
-    0.25 * (1 - precision10) +
-    0.20 * Math.min(1, kVariance * 20) + // Normalize k-variance
-    0.20 * (1 - centroidSurvivalRatio);
+  const collapseIndex = collapseScore(
+    recall5,
+    precision10,
+    kVariance,
+    centroidSurvivalRatio,
+    options.weights
+  );
+
+  const resamples = Math.max(0, Math.floor(options.bootstrapResamples ?? 0));
+  const confidence =
+    resamples > 0 && count > 0
+      ? bootstrapConfidence(measurements, centroidSurvivalRatio, resamples, options)
+      : undefined;
+
+  // Optional global geometry drift (sliced Wasserstein, histogram divergence)
+  const distribution = options.distribution
+    ? calculateDistributionMetrics(original, compressed, {
+        metric: options.metric,
+        seed: options.seed,
+      })
+    : undefined;
+
+  // Optional persistent homology of a small sample (H0/H1 bottleneck)
+  const topology = options.topology
+    ? calculateTopologyMetrics(original, compressed, { metric: options.metric })
+    : undefined;
 
   return {
     recall5,
@@ -184,6 +427,7 @@ export function calculateMetrics(
     mse: safeDiv(mseSum, count),
     localDistortion: safeDiv(localDistortionSum, count),
     trustworthiness: safeDiv(trustworthinessSum, count),
+    continuity: safeDiv(continuitySum, count),
     kendallTau: kt,
     compressionRatio,
     precision10,
@@ -192,20 +436,212 @@ export function calculateMetrics(
     dimensionCollapseRatio,
     centroidSurvivalRatio,
     collapseIndex,
+    sampleSize: count,
+    confidence,
+    slicedWasserstein: distribution?.slicedWasserstein,
+    distanceKL: distribution?.distanceKL,
+    distanceJS: distribution?.distanceJS,
+    bottleneckH0: topology?.bottleneckH0,
+    bottleneckH1: topology?.bottleneckH1,
+    topologicalDistortion: topology?.topologicalDistortion,
   };
 }
 
+/**
+ * Mean variance of per-query recall across neighborhood sizes
+ */
+function kVarianceOf(recallAtK: number[][]): number {
+  const kMeans = recallAtK.map(arr => arr.reduce((a, b) => a + b, 0) / arr.length);
+  const kVariances = recallAtK.map((arr, i) => {
+    const mean = kMeans[i];
+    const variance = arr.reduce((sum, val) => sum + (val - mean) ** 2, 0) / arr.length;
+    return variance;
+  });
+  return kVariances.reduce((a, b) => a + b, 0) / kVariances.length;
+}
+
+/**
+ * Collapse index (weighted score of early recall, tie-aware precision,
+ * k-variance and centroid survival)
+ * @param weights - Term weights (missing ones default to DEFAULT_COLLAPSE_WEIGHTS)
+ */
+export function collapseScore(
+  recall5: number,
+  precision10: number,
+  kVariance: number,
+  centroidSurvivalRatio: number,
+  weights: Partial<CollapseWeights> = {}
+): number {
+  const w = { ...DEFAULT_COLLAPSE_WEIGHTS, ...weights };
+  return (
+    w.recall5 * (1 - recall5) +
+    w.precision10 * (1 - precision10) +
+    w.kVariance * Math.min(1, kVariance * 20) + // Normalize k-variance
+    w.centroidSurvival * (1 - centroidSurvivalRatio)
+  );
+}
+
+/**
+ * Percentile bootstrap over the sampled queries
+ *
+ * Each resample draws queries with replacement and recomputes the
+ * query-level metrics; centroid survival is a dataset-level constant.
+ */
+function bootstrapConfidence(
+  measurements: QueryMeasurement[],
+  centroidSurvivalRatio: number,
+  resamples: number,
+  options: MetricsOptions
+): MetricConfidence {
+  const level = options.confidenceLevel ?? 0.95;
+  const rng = new SeededRNG(options.seed ?? 42);
+  const n = measurements.length;
+  const samples = {
+    recall5: [] as number[],
+    recall10: [] as number[],
+    mrr: [] as number[],
+    collapseIndex: [] as number[],
+  };
+
+  for (let r = 0; r < resamples; r++) {
+    let recall5 = 0;
+    let recall10 = 0;
+    let precision10 = 0;
+    let mrr = 0;
+    const recallAtK: number[][] = K_VALUES.map(() => []);
+    for (let i = 0; i < n; i++) {
+      const m = measurements[Math.floor(rng.next() * n)];
+      recall5 += m.recall5;
+      recall10 += m.recall10;
+      precision10 += m.precision10;
+      mrr += m.mrr;
+      for (let ki = 0; ki < K_VALUES.length; ki++) recallAtK[ki].push(m.recallAtK[ki]);
+    }
+    recall5 /= n;
+    samples.recall5.push(recall5);
+    samples.recall10.push(recall10 / n);
+    samples.mrr.push(mrr / n);
+    samples.collapseIndex.push(
+      collapseScore(
+        recall5,
+        precision10 / n,
+        kVarianceOf(recallAtK),
+        centroidSurvivalRatio,
+        options.weights
+      )
+    );
+  }
+
+  const alpha = (1 - level) / 2;
+  const interval = (values: number[]): ConfidenceInterval => {
+    const sorted = values.sort((a, b) => a - b);
+    return { lower: quantile(sorted, alpha), upper: quantile(sorted, 1 - alpha) };
+  };
+
+  return {
+    level,
+    resamples,
+    recall5: interval(samples.recall5),
+    recall10: interval(samples.recall10),
+    mrr: interval(samples.mrr),
+    collapseIndex: interval(samples.collapseIndex),
+  };
+}
+
+/**
+ * Calculate comprehensive quality metrics
+ * @param original - Original uncompressed vectors
+ * @param compressed - Compressed vectors
+ * @param k - Neighbor count for metrics (default: 10)
+ * @param options - Distance metric, query sampling, bootstrap confidence intervals,
+ *   distribution/topology metrics and collapse index weights
+ * @returns Quality metrics including collapse detection signals
+ */
+export function calculateMetrics(
+  original: Vector[],
+  compressed: Vector[],
+  k: number = 10,
+  options: MetricsOptions = {}
+): CompressionMetrics {
+  if (!original || !compressed || original.length === 0) {
+    return emptyMetrics();
+  }
+
+  const queries = sampleQueries(original, compressed, options);
+  const measurements = measureQueries(original, compressed, queries, options.metric, k);
+  return aggregateMetrics(original, compressed, queries, measurements, options);
+}
+
+/**
+ * Metrics of an empty input
+ */
+export function emptyMetrics(): CompressionMetrics {
+  return {
+    recall5: 0,
+    recall10: 0,
+    mrr: 0,
+    mse: 0,
+    localDistortion: 0,
+    trustworthiness: 0,
+    kendallTau: 0,
+    compressionRatio: 0,
+    precision10: 0,
+    kVariance: 0,
+    centroidSurvivalRatio: 0,
+    perDimensionMSE: [],
+    dimensionCollapseRatio: 1,
+  };
+}
+
+/**
+ * Score compared against regime thresholds: the collapse index, raised by
+ * topological distortion when topology metrics are present
+ * @param metrics - Calculated quality metrics
+ * @param policy - Topology scale (collapse index weights apply in calculateMetrics)
+ */
+export function regimeScore(metrics: CompressionMetrics, policy: RegimePolicy = {}): number {
+  return Math.max(metrics.collapseIndex ?? 0, topologyScore(metrics, policy));
+}
+
+/**
+ * Regime score contributed by topological distortion alone
+ * @param metrics - Calculated quality metrics
+ * @param policy - Topology scale (default: 2)
+ */
+export function topologyScore(metrics: CompressionMetrics, policy: RegimePolicy = {}): number {
+  return (metrics.topologicalDistortion ?? 0) * (policy.topologyScale ?? TOPOLOGY_SCALE);
+}
+
 /**
  * Detect regime based on metrics
+ *
+ * When topology metrics are present, broken connectivity or loops can
+ * escalate the regime even if neighbor overlap looks healthy.
  * @param metrics - Calculated quality metrics
+ * @param policy - Thresholds, topology scale and custom rules (default: built-in)
  * @returns Regime classification
  */
-export function detectRegime(metrics: CompressionMetrics): Regime {
-  const collapseIndex = metrics.collapseIndex ?? 0;
+export function detectRegime(metrics: CompressionMetrics, policy: RegimePolicy = {}): Regime {
+  const thresholds = { ...DEFAULT_REGIME_THRESHOLDS, ...policy.thresholds };
+  if (
+    !(thresholds.preCollapse <= thresholds.collapse && thresholds.collapse <= thresholds.postCollapse)
+  ) {
+    throw new Error(
+      `Regime thresholds must be increasing, got ${thresholds.preCollapse}, ` +
+        `${thresholds.collapse}, ${thresholds.postCollapse}`
+    );
+  }
 
   // Use collapse index (primary signal)
-  if (collapseIndex < 0.15) return Regime.STABLE;
-  if (collapseIndex < 0.35) return Regime.PRE_COLLAPSE;
-  if (collapseIndex < 0.60) return Regime.COLLAPSE;
-  return Regime.POST_COLLAPSE;
+  const score = regimeScore(metrics, policy);
+  let regime: Regime;
+  if (score < thresholds.preCollapse) regime = Regime.STABLE;
+  else if (score < thresholds.collapse) regime = Regime.PRE_COLLAPSE;
+  else if (score < thresholds.postCollapse) regime = Regime.COLLAPSE;
+  else regime = Regime.POST_COLLAPSE;
+
+  for (const rule of policy.rules ?? []) {
+    regime = rule(metrics, regime) ?? regime;
+  }
+  return regime;
 }
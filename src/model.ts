@@ -0,0 +1,382 @@
+/**
+ * Fit / encode / decode: trained compressor models
+ *
+ * Codes are plain number arrays, one per vector:
+ * - LATTICE: integer grid index per dimension
+ * - BOUNDARY_AWARE: refinement level l (grid step gridStep / 2^l) followed by grid indices
+ * - K_MEANS: [centroid index]
+ * - RANDOM_PROJECTION: projected coordinates
+ * - PRODUCT_QUANTIZATION / OPTIMIZED_PRODUCT_QUANTIZATION: one centroid index per subspace
+ * - SCALAR_QUANTIZATION: level index (0 .. 2^bits − 1) per dimension
+ * - BINARY_QUANTIZATION: 32-bit words of sign bits, ceil(dim / 32) per vector
+ * - RESIDUAL_QUANTIZATION: one centroid index per stage
+ *
+ * Models with a norm quantizer append the vector's quantized norm to its code.
+ */
+
+import {
+  Vector,
+  CompressionMethod,
+  CompressionOptions,
+  CompressorModel,
+  DistanceMetric,
+  NormQuantizer,
+} from './types';
+import { normalizeVectors, dotProduct, distance } from './utils';
+import { trainKMeans, assignToCentroids } from './kmeans';
+import { createRandomProjection, projectVectors } from './projection';
+import {
+  trainProductQuantizer,
+  trainOptimizedProductQuantizer,
+  encodeProductQuantizer,
+  decodeProductQuantizer,
+} from './pq';
+import { trainScalarQuantizer, encodeScalarQuantizer, decodeScalarQuantizer } from './scalar';
+import { trainBinaryQuantizer, encodeBinaryQuantizer, decodeBinaryQuantizer } from './binary';
+import {
+  trainResidualQuantizer,
+  encodeResidualQuantizer,
+  decodeResidualQuantizer,
+} from './residual';
+
+/** Deepest boundary-aware refinement (steps down to gridStep / 2^15) */
+const MAX_BOUNDARY_LEVELS = 16;
+
+/**
+ * Widest input OPQ is fitted on: each rotation update is a dense d × d eigen
+ * decomposition (O(d³)), already tens of seconds at 256 dimensions
+ */
+const MAX_OPQ_DIM = 256;
+
+/**
+ * Nearest grid index (adding 0 folds -0 into 0, as integer packing would)
+ */
+function gridIndex(val: number, step: number): number {
+  return Math.round(val / step) + 0;
+}
+
+/**
+ * Quantization error of a reconstruction under a metric
+ *
+ * Inner product is not a distance from a vector to itself, so its error is
+ * the change in the vector's self-score |v·v − v·r|.
+ */
+function reconstructionError(v: Vector, r: Vector, metric: DistanceMetric): number {
+  if (metric === DistanceMetric.INNER_PRODUCT) {
+    return Math.abs(dotProduct(v, v) - dotProduct(v, r));
+  }
+  return distance(v, r, metric);
+}
+
+/**
+ * Uniform quantizer over the norm range of the training sample
+ */
+function fitNormQuantizer(vectors: Vector[], bits: number): NormQuantizer {
+  if (!Number.isInteger(bits) || bits < 1 || bits > 16) {
+    throw new Error(`normBits must be an integer from 1 to 16, got ${bits}`);
+  }
+  let min = Infinity;
+  let max = 0;
+  for (const v of vectors) {
+    const norm = Math.sqrt(dotProduct(v, v));
+    if (norm < min) min = norm;
+    if (norm > max) max = norm;
+  }
+  return { bits, min, max };
+}
+
+/**
+ * Norm code of a vector (norms outside the fitted range are clamped)
+ */
+function quantizeNorm(quantizer: NormQuantizer, norm: number): number {
+  const range = quantizer.max - quantizer.min;
+  if (range <= 0) return 0;
+  const levels = 2 ** quantizer.bits - 1;
+  return Math.min(levels, Math.max(0, Math.round(((norm - quantizer.min) / range) * levels)));
+}
+
+/**
+ * Norm represented by a norm code
+ * @param quantizer - Norm quantizer of the model
+ * @param code - Quantized norm
+ */
+export function dequantizeNorm(quantizer: NormQuantizer, code: number): number {
+  const levels = 2 ** quantizer.bits - 1;
+  return quantizer.min + ((quantizer.max - quantizer.min) * code) / levels;
+}
+
+/**
+ * Vectors in the space a model's reconstructions live in: normalized when
+ * the model normalizes without preserving norms, unchanged otherwise
+ * @param model - Trained model
+ * @param vectors - Vectors in the original input space
+ */
+export function referenceVectors(model: CompressorModel, vectors: Vector[]): Vector[] {
+  return model.normalize && !model.normQuantizer ? normalizeVectors(vectors) : vectors;
+}
+
+/**
+ * Fit a compressor model on a training sample
+ * @param vectors - Training vectors (non-empty)
+ * @param options - Fully resolved compression options
+ * @returns Trained model
+ */
+export function fitModel(
+  vectors: Vector[],
+  options: Required<CompressionOptions>
+): CompressorModel {
+  if (!vectors || vectors.length === 0) {
+    throw new Error('Cannot fit a compressor model on empty input');
+  }
+
+  const dim = vectors[0].length;
+  const training = options.normalize ? normalizeVectors(vectors) : vectors;
+  const model: CompressorModel = {
+    method: options.method,
+    dim,
+    normalize: options.normalize,
+    metric: options.metric,
+  };
+  if (options.normalize && options.preserveNorms) {
+    model.normQuantizer = fitNormQuantizer(vectors, options.normBits);
+  }
+
+  switch (options.method) {
+    case CompressionMethod.LATTICE:
+      model.gridStep = options.gridStep;
+      break;
+
+    case CompressionMethod.BOUNDARY_AWARE:
+      if (
+        !Number.isInteger(options.boundaryLevels) ||
+        options.boundaryLevels < 1 ||
+        options.boundaryLevels > MAX_BOUNDARY_LEVELS
+      ) {
+        throw new Error(
+          `boundaryLevels must be an integer from 1 to ${MAX_BOUNDARY_LEVELS}, ` +
+            `got ${options.boundaryLevels}`
+        );
+      }
+      model.gridStep = options.gridStep;
+      model.boundaryMargin = options.boundaryMargin;
+      model.boundaryLevels = options.boundaryLevels;
+      break;
+
+    case CompressionMethod.K_MEANS:
+      model.centroids = trainKMeans(training, options.clusterCount, options.seed).centroids;
+      break;
+
+    case CompressionMethod.RANDOM_PROJECTION: {
+      const targetDim =
+        options.targetDim > 0 ? options.targetDim : Math.max(1, Math.floor(dim / 2));
+      model.projection = createRandomProjection(
+        dim,
+        targetDim,
+        options.seed,
+        options.projectionType
+      );
+      break;
+    }
+
+    case CompressionMethod.PRODUCT_QUANTIZATION:
+      model.productQuantizer = trainProductQuantizer(
+        training,
+        options.subQuantizers,
+        options.clusterCount,
+        options.seed
+      );
+      break;
+
+    case CompressionMethod.OPTIMIZED_PRODUCT_QUANTIZATION:
+      if (dim > MAX_OPQ_DIM) {
+        throw new Error(
+          `OPTIMIZED_PRODUCT_QUANTIZATION supports at most ${MAX_OPQ_DIM} dimensions, ` +
+            `got ${dim}; use PRODUCT_QUANTIZATION or reduce the dimensionality first`
+        );
+      }
+      model.productQuantizer = trainOptimizedProductQuantizer(
+        training,
+        options.subQuantizers,
+        options.clusterCount,
+        options.seed,
+        options.opqIterations
+      );
+      break;
+
+    case CompressionMethod.SCALAR_QUANTIZATION:
+      model.scalarQuantizer = trainScalarQuantizer(
+        training,
+        options.scalarBits,
+        options.scalarCalibration,
+        options.scalarPercentile
+      );
+      break;
+
+    case CompressionMethod.BINARY_QUANTIZATION:
+      model.binaryQuantizer = trainBinaryQuantizer(training);
+      break;
+
+    case CompressionMethod.RESIDUAL_QUANTIZATION:
+      model.residualQuantizer = trainResidualQuantizer(
+        training,
+        options.residualStages,
+        options.clusterCount,
+        options.seed,
+        options.targetDistortion
+      );
+      break;
+  }
+
+  return model;
+}
+
+/**
+ * Encode vectors against a trained model
+ * @param model - Trained model
+ * @param vectors - Vectors in the original input space
+ * @returns One code array per vector
+ */
+export function encodeVectors(model: CompressorModel, vectors: Vector[]): number[][] {
+  for (const v of vectors) {
+    if (v.length !== model.dim) {
+      throw new Error(`Vector dimension ${v.length} does not match model dimension ${model.dim}`);
+    }
+  }
+
+  const input = model.normalize ? normalizeVectors(vectors) : vectors;
+  const codes = encodeNormalized(model, input);
+
+  const normQuantizer = model.normQuantizer;
+  if (normQuantizer) {
+    codes.forEach((c, i) => {
+      c.push(quantizeNorm(normQuantizer, Math.sqrt(dotProduct(vectors[i], vectors[i]))));
+    });
+  }
+  return codes;
+}
+
+/**
+ * Encode vectors that are already in the compression space
+ */
+function encodeNormalized(model: CompressorModel, input: Vector[]): number[][] {
+  switch (model.method) {
+    case CompressionMethod.LATTICE: {
+      const step = model.gridStep ?? 0;
+      if (step <= 0) return input.map(v => v.slice());
+      return input.map(v => v.map(val => gridIndex(val, step)));
+    }
+
+    case CompressionMethod.BOUNDARY_AWARE: {
+      const baseStep = model.gridStep ?? 0;
+      if (baseStep <= 0) return input.map(v => [0, ...v]);
+      const threshold = model.boundaryMargin ?? 0;
+      const metric = model.metric ?? DistanceMetric.EUCLIDEAN;
+      const lastLevel = (model.boundaryLevels ?? 2) - 1;
+
+      return input.map(v => {
+        // Halve the step until the distortion is within the margin
+        for (let level = 0; ; level++) {
+          const step = baseStep / 2 ** level;
+          const indices = v.map(val => gridIndex(val, step));
+          if (
+            level === lastLevel ||
+            reconstructionError(v, indices.map(idx => idx * step), metric) <= threshold
+          ) {
+            return [level, ...indices];
+          }
+        }
+      });
+    }
+
+    case CompressionMethod.K_MEANS:
+      return assignToCentroids(input, model.centroids ?? []).map(c => [c]);
+
+    case CompressionMethod.RANDOM_PROJECTION: {
+      // Rounded to the float32 they are packed as, so reconstructions match unpacked codes
+      const projected = model.projection ? projectVectors(input, model.projection) : input;
+      return projected.map(v => v.map(x => Math.fround(x)));
+    }
+
+    case CompressionMethod.PRODUCT_QUANTIZATION:
+    case CompressionMethod.OPTIMIZED_PRODUCT_QUANTIZATION:
+      return encodeProductQuantizer(input, model.productQuantizer!).map(c => Array.from(c));
+
+    case CompressionMethod.SCALAR_QUANTIZATION:
+      return encodeScalarQuantizer(input, model.scalarQuantizer!).map(c => Array.from(c));
+
+    case CompressionMethod.BINARY_QUANTIZATION:
+      return encodeBinaryQuantizer(input).map(c => Array.from(c));
+
+    case CompressionMethod.RESIDUAL_QUANTIZATION:
+      return encodeResidualQuantizer(input, model.residualQuantizer!).map(c => Array.from(c));
+
+    default:
+      return input.map(v => v.slice());
+  }
+}
+
+/**
+ * Decode codes back to vectors
+ * Reconstructions live in the (normalized, if enabled) compression space,
+ * rescaled to the quantized norm when norms are preserved; random
+ * projection codes decode to the reduced vectors themselves.
+ * @param model - Trained model
+ * @param codes - Codes produced by encodeVectors
+ * @returns Reconstructed vectors
+ */
+export function decodeVectors(model: CompressorModel, codes: number[][]): Vector[] {
+  const normQuantizer = model.normQuantizer;
+  if (!normQuantizer) return decodeNormalized(model, codes);
+
+  const decoded = decodeNormalized(model, codes.map(c => c.slice(0, -1)));
+  return decoded.map((v, i) => {
+    const norm = dequantizeNorm(normQuantizer, codes[i][codes[i].length - 1]);
+    return v.map(x => x * norm);
+  });
+}
+
+/**
+ * Decode codes (without norm codes) to the compression space
+ */
+function decodeNormalized(model: CompressorModel, codes: number[][]): Vector[] {
+  switch (model.method) {
+    case CompressionMethod.LATTICE: {
+      const step = model.gridStep ?? 0;
+      if (step <= 0) return codes.map(c => c.slice());
+      return codes.map(c => c.map(idx => idx * step));
+    }
+
+    case CompressionMethod.BOUNDARY_AWARE: {
+      const baseStep = model.gridStep ?? 0;
+      if (baseStep <= 0) return codes.map(c => c.slice(1));
+      return codes.map(c => {
+        const step = baseStep / 2 ** c[0];
+        return c.slice(1).map(idx => idx * step);
+      });
+    }
+
+    case CompressionMethod.K_MEANS: {
+      const centroids = model.centroids ?? [];
+      return codes.map(c => centroids[c[0]].slice());
+    }
+
+    case CompressionMethod.PRODUCT_QUANTIZATION:
+    case CompressionMethod.OPTIMIZED_PRODUCT_QUANTIZATION:
+      return decodeProductQuantizer(
+        codes.map(c => Uint8Array.from(c)),
+        model.productQuantizer!
+      );
+
+    case CompressionMethod.SCALAR_QUANTIZATION:
+      return decodeScalarQuantizer(codes, model.scalarQuantizer!);
+
+    case CompressionMethod.BINARY_QUANTIZATION:
+      return decodeBinaryQuantizer(codes, model.binaryQuantizer!);
+
+    case CompressionMethod.RESIDUAL_QUANTIZATION:
+      return decodeResidualQuantizer(codes, model.residualQuantizer!, model.dim);
+
+    default:
+      return codes.map(c => c.slice());
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Opt-in parallel execution on Node worker threads
+ *
+ * Vectors are copied once into SharedArrayBuffer storage that every worker
+ * reads without cloning. Work is split into contiguous shards and merged in
+ * shard order, so results are identical to the sequential functions (and to
+ * each other) for any worker count.
+ *
+ * Every call starts one fresh worker per shard (each costs tens of
+ * milliseconds to boot and load the library) and terminates it after its
+ * reply, so parallel mode only pays off for inputs that take longer than that
+ * to process sequentially.
+ */
+
+import {
+  Vector,
+  CompressionMetrics,
+  CompressorModel,
+  DistanceMetric,
+  MetricsOptions,
+  ParallelOptions,
+} from './types';
+import { sampleQueries, aggregateMetrics, emptyMetrics, QueryMeasurement } from './metrics';
+
+/**
+ * Vectors in shared row-major float64 storage
+ */
+export interface SharedVectors {
+  buffer: SharedArrayBuffer;
+  count: number;
+  dim: number;
+}
+
+/**
+ * Work item posted to a worker (see worker.ts)
+ */
+export type WorkerTask =
+  | { task: 'encode'; model: CompressorModel; vectors: SharedVectors; start: number; end: number }
+  | {
+      task: 'metrics';
+      original: SharedVectors;
+      compressed: SharedVectors;
+      queries: number[];
+      metric?: DistanceMetric;
+      k: number;
+    };
+
+/**
+ * Copy vectors into SharedArrayBuffer storage
+ *
+ * Float64 keeps values bit-identical to the input, so sharded results match
+ * the sequential path exactly.
+ */
+export function toSharedVectors(vectors: Vector[]): SharedVectors {
+  const count = vectors.length;
+  const dim = count > 0 ? vectors[0].length : 0;
+  const buffer = new SharedArrayBuffer(count * dim * Float64Array.BYTES_PER_ELEMENT);
+  const view = new Float64Array(buffer);
+  for (let i = 0; i < count; i++) {
+    if (vectors[i].length !== dim) {
+      throw new Error(`Vector ${i} has dimension ${vectors[i].length}, expected ${dim}`);
+    }
+    view.set(vectors[i], i * dim);
+  }
+  return { buffer, count, dim };
+}
+
+/**
+ * Rows [start, end) of shared storage as plain vectors
+ */
+export function fromSharedVectors(
+  shared: SharedVectors,
+  start: number = 0,
+  end: number = shared.count
+): Vector[] {
+  const view = new Float64Array(shared.buffer);
+  const rows: Vector[] = [];
+  for (let i = start; i < end; i++) {
+    rows.push(Array.from(view.subarray(i * shared.dim, (i + 1) * shared.dim)));
+  }
+  return rows;
+}
+
+/**
+ * Encode vectors against a fitted model, sharded across worker threads
+ * @param model - Fitted model
+ * @param vectors - Vectors to encode
+ * @param options - Worker count (default: available CPUs)
+ * @returns One code array per vector, identical to encodeVectors()
+ */
+export async function encodeParallel(
+  model: CompressorModel,
+  vectors: Vector[],
+  options: ParallelOptions = {}
+): Promise<number[][]> {
+  if (vectors.length === 0) return [];
+
+  const script = await workerScript(options);
+  const shared = toSharedVectors(vectors);
+  const shards = shardRanges(vectors.length, await workerCount(options, vectors.length));
+  const results = await Promise.all(
+    shards.map(([start, end]) =>
+      runTask<number[][]>(script, { task: 'encode', model, vectors: shared, start, end })
+    )
+  );
+  return results.flat();
+}
+
+/**
+ * calculateMetrics() with the sampled queries sharded across worker threads
+ * @param original - Original vectors
+ * @param compressed - Compressed vectors
+ * @param k - Neighbor count for metrics (default: 10)
+ * @param options - Worker count (default: available CPUs) and metric options
+ * @returns Metrics identical to calculateMetrics()
+ */
+export async function calculateMetricsParallel(
+  original: Vector[],
+  compressed: Vector[],
+  k: number = 10,
+  options: ParallelOptions & MetricsOptions = {}
+): Promise<CompressionMetrics> {
+  if (!original || !compressed || original.length === 0) {
+    return emptyMetrics();
+  }
+
+  const script = await workerScript(options);
+  const queries = sampleQueries(original, compressed, options);
+  const sharedOriginal = toSharedVectors(original);
+  const sharedCompressed = toSharedVectors(compressed);
+  const shards = shardRanges(queries.length, await workerCount(options, queries.length));
+
+  const results = await Promise.all(
+    shards.map(([start, end]) =>
+      runTask<QueryMeasurement[]>(script, {
+        task: 'metrics',
+        original: sharedOriginal,
+        compressed: sharedCompressed,
+        queries: queries.slice(start, end),
+        metric: options.metric,
+        k,
+      })
+    )
+  );
+  return aggregateMetrics(original, compressed, queries, results.flat(), options);
+}
+
+/**
+ * Contiguous [start, end) ranges splitting `count` items into `shards` parts
+ */
+function shardRanges(count: number, shards: number): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  for (let s = 0; s < shards; s++) {
+    const start = Math.floor((s * count) / shards);
+    const end = Math.floor(((s + 1) * count) / shards);
+    if (end > start) ranges.push([start, end]);
+  }
+  return ranges;
+}
+
+/**
+ * Requested worker count, clamped to [1, items]
+ */
+async function workerCount(options: ParallelOptions, items: number): Promise<number> {
+  const requested = options.workers ?? (await import('os')).cpus().length;
+  return Math.max(1, Math.min(Math.floor(requested), items));
+}
+
+/**
+ * Run one task on a fresh worker and resolve with its reply
+ */
+async function runTask<T>(script: string | URL, task: WorkerTask): Promise<T> {
+  const { Worker } = await import('worker_threads');
+
+  return new Promise<T>((resolve, reject) => {
+    const worker = new Worker(script, { workerData: task });
+    let settled = false;
+    worker.once('message', (result: T) => {
+      settled = true;
+      resolve(result);
+      void worker.terminate();
+    });
+    worker.once('error', err => {
+      settled = true;
+      reject(err);
+    });
+    worker.once('exit', code => {
+      if (!settled) reject(new Error(`Worker exited with code ${code} before replying`));
+    });
+  });
+}
+
+/**
+ * Worker entry point: the `workerScript` option, or the compiled worker.js
+ * next to this module (the ES module entry re-exports this build)
+ */
+async function workerScript(options: ParallelOptions): Promise<string | URL> {
+  if (options.workerScript) return options.workerScript;
+
+  const path = await import('path');
+  const fs = await import('fs');
+  const compiled = path.join(__dirname, 'worker.js');
+  if (!fs.existsSync(compiled)) {
+    throw new Error(
+      `Compiled worker not found at ${compiled}; build the package or pass workerScript`
+    );
+  }
+  return compiled;
+}
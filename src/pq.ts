@@ -0,0 +1,229 @@
+/**
+ * Product Quantization (PQ): split vectors into subspaces and quantize
+ * each subspace with its own small k-means codebook
+ */
+
+import { Vector, ProductQuantizer } from './types';
+import { trainKMeans, assignToCentroids } from './kmeans';
+import {
+  identityMatrix,
+  multiplyMatrixVector,
+  multiplyTransposeVector,
+  symmetricEigen,
+} from './linalg';
+
+/** Byte codes cap each subspace codebook at 256 centroids */
+const MAX_SUBSPACE_CENTROIDS = 256;
+
+/**
+ * Split [0, dim) into `count` contiguous, near-equal subspaces
+ */
+function subspaceOffsets(dim: number, count: number): number[] {
+  const m = Math.max(1, Math.min(Math.floor(count), dim));
+  const offsets: number[] = [];
+  for (let i = 0; i <= m; i++) offsets.push(Math.floor((i * dim) / m));
+  return offsets;
+}
+
+/**
+ * Train a product quantizer
+ * @param vectors - Training vectors
+ * @param subQuantizers - Number of subspaces M (clamped to the dimensionality)
+ * @param codebookSize - Centroids per subspace (clamped to 256 and vectors.length)
+ * @param seed - Random seed (subspace m is trained with seed + m)
+ * @returns Trained product quantizer
+ */
+export function trainProductQuantizer(
+  vectors: Vector[],
+  subQuantizers: number,
+  codebookSize: number,
+  seed: number
+): ProductQuantizer {
+  const dim = vectors.length > 0 ? vectors[0].length : 0;
+  if (dim === 0) {
+    return { dim, offsets: [0], codebooks: [] };
+  }
+
+  const offsets = subspaceOffsets(dim, subQuantizers);
+  const k = Math.min(codebookSize, MAX_SUBSPACE_CENTROIDS);
+  const codebooks: Vector[][] = [];
+
+  for (let m = 0; m < offsets.length - 1; m++) {
+    const sub = vectors.map(v => v.slice(offsets[m], offsets[m + 1]));
+    codebooks.push(trainKMeans(sub, k, seed + m).centroids);
+  }
+
+  return { dim, offsets, codebooks };
+}
+
+/**
+ * Eigenvalue allocation (parametric OPQ initialization):
+ * assign principal directions to subspaces so that each subspace gets a
+ * balanced product of variances
+ */
+function eigenvalueAllocation(vectors: Vector[], offsets: number[]): Vector[] {
+  const n = vectors.length;
+  const dim = vectors[0].length;
+
+  const mean = new Array(dim).fill(0);
+  for (const v of vectors) for (let d = 0; d < dim; d++) mean[d] += v[d] / n;
+
+  const cov: Vector[] = Array.from({ length: dim }, () => new Array(dim).fill(0));
+  for (const v of vectors) {
+    for (let a = 0; a < dim; a++) {
+      const da = v[a] - mean[a];
+      for (let b = a; b < dim; b++) cov[a][b] += (da * (v[b] - mean[b])) / n;
+    }
+  }
+  for (let a = 0; a < dim; a++) for (let b = 0; b < a; b++) cov[a][b] = cov[b][a];
+
+  const { values, vectors: directions } = symmetricEigen(cov);
+
+  const subspaces = offsets.length - 1;
+  const buckets: Vector[][] = Array.from({ length: subspaces }, () => []);
+  const logVariance = new Array(subspaces).fill(0);
+
+  for (let e = 0; e < values.length; e++) {
+    let target = -1;
+    for (let m = 0; m < subspaces; m++) {
+      const capacity = offsets[m + 1] - offsets[m];
+      if (buckets[m].length >= capacity) continue;
+      if (target === -1 || logVariance[m] < logVariance[target]) target = m;
+    }
+    buckets[target].push(directions[e]);
+    logVariance[target] += Math.log(Math.max(values[e], 1e-12));
+  }
+
+  return buckets.flat();
+}
+
+/**
+ * Orthogonal Procrustes: rotation R minimizing Σ ||R xᵢ - yᵢ||²
+ * via the polar factor of M = Σ yᵢ xᵢᵀ
+ */
+function procrustesRotation(xs: Vector[], ys: Vector[]): Vector[] | null {
+  const dim = xs[0].length;
+  const m: Vector[] = Array.from({ length: dim }, () => new Array(dim).fill(0));
+  for (let i = 0; i < xs.length; i++) {
+    const x = xs[i];
+    const y = ys[i];
+    for (let a = 0; a < dim; a++) {
+      const ya = y[a];
+      for (let b = 0; b < dim; b++) m[a][b] += ya * x[b];
+    }
+  }
+
+  // R = M (MᵀM)^(-1/2)
+  const mtm: Vector[] = Array.from({ length: dim }, () => new Array(dim).fill(0));
+  for (let a = 0; a < dim; a++) {
+    for (let b = a; b < dim; b++) {
+      let sum = 0;
+      for (let r = 0; r < dim; r++) sum += m[r][a] * m[r][b];
+      mtm[a][b] = sum;
+      mtm[b][a] = sum;
+    }
+  }
+
+  const { values, vectors } = symmetricEigen(mtm);
+  if (values[values.length - 1] <= 1e-12 * Math.max(values[0], 1e-300)) {
+    return null; // Rank-deficient: keep the previous rotation
+  }
+
+  const invSqrt: Vector[] = Array.from({ length: dim }, () => new Array(dim).fill(0));
+  for (let e = 0; e < dim; e++) {
+    const w = 1 / Math.sqrt(values[e]);
+    const u = vectors[e];
+    for (let a = 0; a < dim; a++) {
+      for (let b = 0; b < dim; b++) invSqrt[a][b] += w * u[a] * u[b];
+    }
+  }
+
+  return m.map(row => multiplyTransposeVector(invSqrt, row));
+}
+
+/**
+ * Train an optimized product quantizer (OPQ): learn an orthogonal rotation
+ * that balances variance across subspaces before splitting
+ *
+ * Initializes with eigenvalue allocation, then alternates between training
+ * the PQ codebooks on rotated data and re-fitting the rotation (Procrustes).
+ * Each rotation fit is a dense d × d eigen decomposition (O(d³)), so OPQ is
+ * practical up to a few hundred dimensions: fitModel() rejects it above 256,
+ * and the ratio solver and sweep skip it by default above 128.
+ * @param vectors - Training vectors
+ * @param subQuantizers - Number of subspaces M (clamped to the dimensionality)
+ * @param codebookSize - Centroids per subspace (clamped to 256 and vectors.length)
+ * @param seed - Random seed
+ * @param iterations - Rotation refinement iterations (default: 4)
+ * @returns Trained product quantizer with `rotation` set
+ */
+export function trainOptimizedProductQuantizer(
+  vectors: Vector[],
+  subQuantizers: number,
+  codebookSize: number,
+  seed: number,
+  iterations: number = 4
+): ProductQuantizer {
+  const dim = vectors.length > 0 ? vectors[0].length : 0;
+  if (dim === 0) {
+    return { dim, offsets: [0], codebooks: [], rotation: [] };
+  }
+
+  const offsets = subspaceOffsets(dim, subQuantizers);
+  let rotation = vectors.length > 1 ? eigenvalueAllocation(vectors, offsets) : identityMatrix(dim);
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const rotated = vectors.map(v => multiplyMatrixVector(rotation, v));
+    const pq = trainProductQuantizer(rotated, subQuantizers, codebookSize, seed);
+    const reconstructed = decodeProductQuantizer(encodeProductQuantizer(rotated, pq), pq);
+    rotation = procrustesRotation(vectors, reconstructed) ?? rotation;
+  }
+
+  const rotated = vectors.map(v => multiplyMatrixVector(rotation, v));
+  const pq = trainProductQuantizer(rotated, subQuantizers, codebookSize, seed);
+  return { ...pq, dim, rotation };
+}
+
+/**
+ * Encode vectors as one byte per subspace
+ * @param vectors - Vectors to encode
+ * @param pq - Trained product quantizer
+ * @returns Per-vector code arrays (length M)
+ */
+export function encodeProductQuantizer(vectors: Vector[], pq: ProductQuantizer): Uint8Array[] {
+  if (pq.rotation) {
+    const rotation = pq.rotation;
+    vectors = vectors.map(v => multiplyMatrixVector(rotation, v));
+  }
+  const codes = vectors.map(() => new Uint8Array(pq.codebooks.length));
+
+  for (let m = 0; m < pq.codebooks.length; m++) {
+    const start = pq.offsets[m];
+    const end = pq.offsets[m + 1];
+    const assigned = assignToCentroids(
+      vectors.map(v => v.slice(start, end)),
+      pq.codebooks[m]
+    );
+    for (let i = 0; i < vectors.length; i++) codes[i][m] = assigned[i];
+  }
+
+  return codes;
+}
+
+/**
+ * Reconstruct vectors from PQ codes
+ * @param codes - Per-vector code arrays
+ * @param pq - Trained product quantizer
+ * @returns Reconstructed vectors
+ */
+export function decodeProductQuantizer(codes: Uint8Array[], pq: ProductQuantizer): Vector[] {
+  return codes.map(code => {
+    const v: Vector = new Array(pq.dim);
+    for (let m = 0; m < pq.codebooks.length; m++) {
+      const centroid = pq.codebooks[m][code[m]];
+      const start = pq.offsets[m];
+      for (let d = 0; d < centroid.length; d++) v[start + d] = centroid[d];
+    }
+    return pq.rotation ? multiplyTransposeVector(pq.rotation, v) : v;
+  });
+}
@@ -0,0 +1,70 @@
+/**
+ * Seeded random projection (Johnson-Lindenstrauss) for dimensionality reduction
+ */
+
+import { Vector, ProjectionType, RandomProjection } from './types';
+import { SeededRNG } from './utils';
+
+/**
+ * Generate a reproducible projection matrix
+ * @param inputDim - Input dimensionality
+ * @param targetDim - Output dimensionality
+ * @param seed - Random seed (same seed + dims = same matrix)
+ * @param type - Projection family (default: GAUSSIAN)
+ * @returns Projection matrix scaled to preserve expected squared distances
+ */
+export function createRandomProjection(
+  inputDim: number,
+  targetDim: number,
+  seed: number,
+  type: ProjectionType = ProjectionType.GAUSSIAN
+): RandomProjection {
+  const rng = new SeededRNG(seed);
+  const t = Math.max(1, Math.floor(targetDim));
+  const weights: Vector[] = [];
+
+  if (type === ProjectionType.SPARSE) {
+    const scale = Math.sqrt(3 / t);
+    for (let r = 0; r < t; r++) {
+      const row = new Array(inputDim);
+      for (let c = 0; c < inputDim; c++) {
+        const u = rng.next();
+        row[c] = u < 1 / 6 ? scale : u < 1 / 3 ? -scale : 0;
+      }
+      weights.push(row);
+    }
+  } else {
+    const scale = 1 / Math.sqrt(t);
+    for (let r = 0; r < t; r++) {
+      const row = new Array(inputDim);
+      for (let c = 0; c < inputDim; c++) row[c] = rng.gaussian() * scale;
+      weights.push(row);
+    }
+  }
+
+  return { type, inputDim, targetDim: t, seed, weights };
+}
+
+/**
+ * Project vectors with an existing projection matrix
+ * Use the matrix returned by compression to project later query vectors
+ * (after the same normalization) so search stays consistent.
+ * @param vectors - Vectors in the input space
+ * @param projection - Projection matrix
+ * @returns Vectors in the reduced space
+ */
+export function projectVectors(vectors: Vector[], projection: RandomProjection): Vector[] {
+  const { weights, inputDim } = projection;
+  return vectors.map(v => {
+    if (v.length !== inputDim) {
+      throw new Error(
+        `Vector dimension ${v.length} does not match projection input dimension ${inputDim}`
+      );
+    }
+    return weights.map(row => {
+      let sum = 0;
+      for (let c = 0; c < inputDim; c++) sum += row[c] * v[c];
+      return sum;
+    });
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * Residual Quantization (RQ): a sequence of k-means codebooks over the full
+ * space, each trained on what the stages before it left unexplained
+ */
+
+import { Vector, ResidualQuantizer } from './types';
+import { trainKMeans, assignToCentroids } from './kmeans';
+
+/** Stage codes are stored in one byte */
+const MAX_STAGE_CENTROIDS = 256;
+
+/**
+ * Mean squared norm of the residuals
+ */
+function meanSquaredNorm(residuals: Vector[]): number {
+  let sum = 0;
+  for (const r of residuals) for (const x of r) sum += x * x;
+  return residuals.length > 0 ? sum / residuals.length : 0;
+}
+
+/**
+ * Subtract each residual's assigned centroid in place
+ */
+function subtractCentroids(residuals: Vector[], centroids: Vector[], codes: number[]): void {
+  residuals.forEach((r, i) => {
+    const c = centroids[codes[i]];
+    for (let d = 0; d < r.length; d++) r[d] -= c[d];
+  });
+}
+
+/**
+ * Train a residual quantizer
+ *
+ * Stages are added until the training distortion (mean squared
+ * reconstruction error per vector) reaches `targetDistortion`, the residual
+ * vanishes, or `maxStages` stages are trained.
+ * @param vectors - Training vectors
+ * @param maxStages - Maximum number of stages (positive integer)
+ * @param codebookSize - Centroids per stage (clamped to 256 and vectors.length)
+ * @param seed - Random seed (stage s is trained with seed + s)
+ * @param targetDistortion - Distortion to stop at (default: 0, train every stage)
+ * @returns Trained residual quantizer with the distortion after each stage
+ */
+export function trainResidualQuantizer(
+  vectors: Vector[],
+  maxStages: number,
+  codebookSize: number,
+  seed: number,
+  targetDistortion: number = 0
+): ResidualQuantizer {
+  if (!Number.isInteger(maxStages) || maxStages < 1) {
+    throw new Error(`residualStages must be a positive integer, got ${maxStages}`);
+  }
+  if (!(targetDistortion >= 0)) {
+    throw new Error(`targetDistortion must be non-negative, got ${targetDistortion}`);
+  }
+
+  const k = Math.min(codebookSize, MAX_STAGE_CENTROIDS);
+  const residuals = vectors.map(v => v.slice());
+  const codebooks: Vector[][] = [];
+  const distortion: number[] = [];
+
+  for (let s = 0; s < maxStages; s++) {
+    const { centroids, codes } = trainKMeans(residuals, k, seed + s);
+    subtractCentroids(residuals, centroids, codes);
+    codebooks.push(centroids);
+    distortion.push(meanSquaredNorm(residuals));
+    if (distortion[s] <= targetDistortion) break;
+  }
+
+  return { codebooks, distortion };
+}
+
+/**
+ * Encode vectors with a residual quantizer (greedy: each stage picks the
+ * centroid nearest to the remaining residual)
+ * @param vectors - Vectors to encode
+ * @param rq - Trained residual quantizer
+ * @returns One centroid index per stage for each vector
+ */
+export function encodeResidualQuantizer(vectors: Vector[], rq: ResidualQuantizer): Uint8Array[] {
+  const residuals = vectors.map(v => v.slice());
+  const codes = vectors.map(() => new Uint8Array(rq.codebooks.length));
+
+  rq.codebooks.forEach((centroids, s) => {
+    const assigned = assignToCentroids(residuals, centroids);
+    assigned.forEach((c, i) => (codes[i][s] = c));
+    subtractCentroids(residuals, centroids, assigned);
+  });
+  return codes;
+}
+
+/**
+ * Reconstruct vectors as the sum of their stage centroids
+ * @param codes - Per-vector centroid indices (one per stage)
+ * @param rq - Trained residual quantizer
+ * @param dim - Dimensionality of the vectors
+ * @returns Reconstructed vectors
+ */
+export function decodeResidualQuantizer(
+  codes: ArrayLike<number>[],
+  rq: ResidualQuantizer,
+  dim: number
+): Vector[] {
+  return codes.map(code => {
+    const v = new Array(dim).fill(0);
+    rq.codebooks.forEach((centroids, s) => {
+      const c = centroids[code[s]];
+      for (let d = 0; d < dim; d++) v[d] += c[d];
+    });
+    return v;
+  });
+}
@@ -0,0 +1,104 @@
+/**
+ * Scalar Quantization (SQ8 / SQ4): each component is mapped to one of 2^bits
+ * uniform levels over its own dimension's calibrated range
+ */
+
+import { Vector, ScalarQuantizer, ScalarCalibration, ProductQuantizer } from './types';
+import { quantile } from './utils';
+
+/** Supported bit widths */
+const SCALAR_BITS = [4, 8];
+
+/**
+ * Train a scalar quantizer
+ *
+ * Ranges are rounded to float32, the precision they are stored with.
+ * @param vectors - Training vectors
+ * @param bits - Bits per component (4 or 8)
+ * @param calibration - MIN_MAX covers every training value; PERCENTILE
+ *   covers the central `percentile` fraction and clips the tails
+ * @param percentile - Central fraction for PERCENTILE calibration (default: 0.999)
+ * @returns Trained scalar quantizer
+ */
+export function trainScalarQuantizer(
+  vectors: Vector[],
+  bits: number,
+  calibration: ScalarCalibration = ScalarCalibration.MIN_MAX,
+  percentile: number = 0.999
+): ScalarQuantizer {
+  if (!SCALAR_BITS.includes(bits)) {
+    throw new Error(`scalarBits must be 4 or 8, got ${bits}`);
+  }
+  if (!(percentile > 0 && percentile <= 1)) {
+    throw new Error(`scalarPercentile must be in (0, 1], got ${percentile}`);
+  }
+
+  const dim = vectors.length > 0 ? vectors[0].length : 0;
+  const min: number[] = [];
+  const max: number[] = [];
+  const tail = (1 - percentile) / 2;
+
+  for (let d = 0; d < dim; d++) {
+    const values = vectors.map(v => v[d]).sort((a, b) => a - b);
+    const lower =
+      calibration === ScalarCalibration.PERCENTILE ? quantile(values, tail) : values[0];
+    const upper =
+      calibration === ScalarCalibration.PERCENTILE
+        ? quantile(values, 1 - tail)
+        : values[values.length - 1];
+    min.push(Math.fround(lower));
+    max.push(Math.fround(Math.max(lower, upper)));
+  }
+
+  return { bits, min, max };
+}
+
+/**
+ * Encode vectors with a scalar quantizer (values outside a range are clamped)
+ * @param vectors - Vectors to encode
+ * @param sq - Trained scalar quantizer
+ * @returns Per-vector level indices (one per dimension)
+ */
+export function encodeScalarQuantizer(vectors: Vector[], sq: ScalarQuantizer): Uint8Array[] {
+  const levels = 2 ** sq.bits - 1;
+  return vectors.map(v => {
+    const code = new Uint8Array(v.length);
+    for (let d = 0; d < v.length; d++) {
+      const range = sq.max[d] - sq.min[d];
+      if (range <= 0) continue;
+      const level = Math.round(((v[d] - sq.min[d]) / range) * levels);
+      code[d] = Math.min(levels, Math.max(0, level));
+    }
+    return code;
+  });
+}
+
+/**
+ * Reconstruct vectors from scalar quantization codes
+ * @param codes - Per-vector level indices
+ * @param sq - Trained scalar quantizer
+ * @returns Reconstructed vectors
+ */
+export function decodeScalarQuantizer(codes: ArrayLike<number>[], sq: ScalarQuantizer): Vector[] {
+  const levels = 2 ** sq.bits - 1;
+  return codes.map(code =>
+    sq.min.map((lo, d) => lo + ((sq.max[d] - lo) * code[d]) / levels)
+  );
+}
+
+/**
+ * A scalar quantizer as a product quantizer with one-dimensional subspaces
+ * (codebook d lists the 2^bits reconstruction values of dimension d), so
+ * search can score codes with the same asymmetric distance tables
+ */
+export function scalarAsProductQuantizer(sq: ScalarQuantizer): ProductQuantizer {
+  const levels = 2 ** sq.bits - 1;
+  const dim = sq.min.length;
+  return {
+    dim,
+    offsets: Array.from({ length: dim + 1 }, (_, d) => d),
+    codebooks: sq.min.map((lo, d) =>
+      Array.from({ length: levels + 1 }, (_, c) => [lo + ((sq.max[d] - lo) * c) / levels])
+    ),
+  };
+}
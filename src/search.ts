@@ -0,0 +1,491 @@
+/**
+ * Nearest neighbor search directly over compressed codes
+ */
+
+import {
+  Vector,
+  CompressionMethod,
+  CompressionResult,
+  CompressorModel,
+  EncodedVectors,
+  SearchResult,
+  SearchOptions,
+  DistanceMetric,
+  CodeArray,
+  ProductQuantizer,
+  ResidualQuantizer,
+} from './types';
+import { normalizeVectors, distance } from './utils';
+import { projectVectors } from './projection';
+import { multiplyMatrixVector } from './linalg';
+import { topK } from './knn';
+import { decodeVectors, dequantizeNorm, referenceVectors } from './model';
+import { unpackCodes, expandCodes } from './encoding';
+import { scalarAsProductQuantizer } from './scalar';
+import { encodeBinaryQuantizer, hammingScores } from './binary';
+
+/**
+ * Search index over packed codes (no decompression of the stored set)
+ *
+ * - K_MEANS / PQ / OPQ / SCALAR_QUANTIZATION: asymmetric distance
+ *   computation (the query stays in float, stored vectors are looked up
+ *   through per-code distance tables; scalar codes use one table per dimension)
+ * - LATTICE / BOUNDARY_AWARE: distance between the query and integer grid
+ *   codes, scaled by each vector's grid step
+ * - RANDOM_PROJECTION: the query is projected with the stored matrix
+ * - RESIDUAL_QUANTIZATION: per-stage tables of query·centroid plus each
+ *   vector's precomputed reconstruction norm
+ * - BINARY_QUANTIZATION: Hamming distance (popcount) between the query's
+ *   sign bits and the stored bitsets, whatever the metric
+ *
+ * Neighbors are ranked by the model's `metric` (default: EUCLIDEAN). With
+ * preserved norms, stored vectors are scaled by their quantized norm and
+ * queries are compared at their original scale. A rescoring pass re-ranks
+ * the best candidates by exact distances to the original (or decoded) vectors.
+ *
+ * @example
+ * ```typescript
+ * const result = compressor.compress(vectors);
+ * const index = CompressedIndex.fromResult(result);
+ * const { ids, distances } = index.search(query, 10);
+ *
+ * // Re-rank 100 Hamming candidates with the original vectors
+ * const binary = CompressedIndex.fromResult(binaryResult);
+ * const rescored = binary.search(query, 10, { rescore: 100, rescoreVectors: vectors });
+ * ```
+ */
+export class CompressedIndex {
+  private readonly model: CompressorModel;
+  private readonly encoded: EncodedVectors;
+  private readonly norms: Float64Array | null;
+  private readonly codes: CodeArray;
+  private readonly codeLength: number;
+  private readonly scalarCodebooks: ProductQuantizer | null;
+  private readonly residualNorms: Float64Array | null;
+
+  constructor(model: CompressorModel, encoded: EncodedVectors) {
+    if (encoded.header.method !== model.method) {
+      throw new Error(
+        `Encoded method ${encoded.header.method} does not match model method ${model.method}`
+      );
+    }
+    this.model = model;
+    this.encoded = encoded;
+
+    // One code per element (4-bit scalar codes are expanded once)
+    this.codes = expandCodes(encoded);
+    this.codeLength = encoded.header.count > 0 ? this.codes.length / encoded.header.count : 0;
+    this.scalarCodebooks = model.scalarQuantizer
+      ? scalarAsProductQuantizer(model.scalarQuantizer)
+      : null;
+    this.residualNorms = model.residualQuantizer
+      ? reconstructionNorms(model.residualQuantizer, this.codes, this.codeLength, model.dim)
+      : null;
+
+    const normQuantizer = model.normQuantizer;
+    this.norms = null;
+    if (normQuantizer && encoded.norms) {
+      this.norms = Float64Array.from(encoded.norms, code => dequantizeNorm(normQuantizer, code));
+    }
+  }
+
+  /**
+   * Build an index from a compress() result
+   */
+  static fromResult(result: CompressionResult): CompressedIndex {
+    if (!result.model || !result.encoded) {
+      throw new Error('Cannot index a result without a fitted model and encoded codes');
+    }
+    return new CompressedIndex(result.model, result.encoded);
+  }
+
+  /** Number of indexed vectors */
+  get size(): number {
+    return this.encoded.header.count;
+  }
+
+  /**
+   * Find the k nearest stored vectors
+   * @param query - Query vector in the original input space
+   * @param k - Number of neighbors
+   * @param options - Rescoring of the compressed ranking's best candidates
+   * @returns Ids and estimated distances under the model's metric (Hamming
+   *   distances for unrescored binary codes), nearest first
+   */
+  search(query: Vector, k: number, options: SearchOptions = {}): SearchResult {
+    if (query.length !== this.model.dim) {
+      throw new Error(
+        `Query dimension ${query.length} does not match model dimension ${this.model.dim}`
+      );
+    }
+
+    const q = this.model.normalize && !this.norms ? normalizeVectors([query])[0] : query;
+    const scores = this.scores(q);
+
+    if (options.rescore !== undefined || options.rescoreVectors) {
+      const candidates = topK(scores, Math.max(k, options.rescore ?? k));
+      return this.rescore(q, candidates, k, options.rescoreVectors);
+    }
+
+    const ids = topK(scores, k);
+    const squared =
+      this.metric === DistanceMetric.EUCLIDEAN &&
+      this.model.method !== CompressionMethod.BINARY_QUANTIZATION;
+    return {
+      ids,
+      distances: ids.map(i => (squared ? Math.sqrt(Math.max(0, scores[i])) : scores[i])),
+    };
+  }
+
+  /**
+   * Re-rank candidates by exact distances to the rescoring vectors (or to
+   * the decoded candidates when none are given; random projections decode
+   * to the reduced space, so the query is projected to meet them)
+   */
+  private rescore(q: Vector, candidates: number[], k: number, vectors?: Vector[]): SearchResult {
+    let exact: Vector[];
+    let target = q;
+    if (vectors) {
+      if (vectors.length !== this.size) {
+        throw new Error(
+          `Rescoring needs one vector per indexed vector (${this.size}), got ${vectors.length}`
+        );
+      }
+      exact = referenceVectors(this.model, candidates.map(i => vectors[i]));
+    } else {
+      exact = decodeVectors(this.model, candidates.map(i => this.codeRow(i)));
+      if (this.model.projection) target = projectVectors([q], this.model.projection)[0];
+    }
+
+    const distances = exact.map(x => distance(target, x, this.metric));
+    const order = topK(distances, k);
+    return { ids: order.map(j => candidates[j]), distances: order.map(j => distances[j]) };
+  }
+
+  /**
+   * Codes of one stored vector, as accepted by decodeVectors
+   */
+  private codeRow(i: number): number[] {
+    const { codes, codeLength } = this;
+    const row = Array.from(codes.subarray(i * codeLength, (i + 1) * codeLength));
+    if (this.encoded.levels) row.unshift(this.encoded.levels[i]);
+    if (this.encoded.norms) row.push(this.encoded.norms[i]);
+    return row;
+  }
+
+  private get metric(): DistanceMetric {
+    return this.model.metric ?? DistanceMetric.EUCLIDEAN;
+  }
+
+  /**
+   * Score from a (preprocessed) query to every stored vector: squared
+   * distance for EUCLIDEAN, the metric's distance otherwise
+   */
+  private scores(q: Vector): Float64Array {
+    const { count } = this.encoded.header;
+    const { codes, codeLength } = this;
+    const metric = this.metric;
+    const norms = this.norms;
+    const normOf = (i: number) => (norms ? norms[i] : 1);
+
+    switch (this.model.method) {
+      case CompressionMethod.LATTICE:
+      case CompressionMethod.BOUNDARY_AWARE: {
+        const baseStep = this.model.gridStep ?? 0;
+        const levels = this.encoded.levels;
+        const stepOf = (i: number) =>
+          baseStep <= 0 ? 1 : levels ? baseStep / 2 ** levels[i] : baseStep;
+        return coordinateScores(q, codes, count, codeLength, metric, i => stepOf(i) * normOf(i));
+      }
+
+      case CompressionMethod.K_MEANS: {
+        if (norms && metric === DistanceMetric.L1) return this.decodedScores(q, metric);
+        if (norms) return this.rescaledScores(q, metric, [this.model.centroids ?? []], [0]);
+        const table = (this.model.centroids ?? []).map(c =>
+          metric === DistanceMetric.EUCLIDEAN
+            ? squaredDistance(q, c, 0, c.length)
+            : distance(q, c, metric)
+        );
+        const out = new Float64Array(count);
+        for (let i = 0; i < count; i++) out[i] = table[codes[i]];
+        return out;
+      }
+
+      case CompressionMethod.PRODUCT_QUANTIZATION:
+      case CompressionMethod.OPTIMIZED_PRODUCT_QUANTIZATION: {
+        const pq = this.model.productQuantizer!;
+        if (!norms) return this.productQuantizerScores(q, metric, pq);
+        if (metric === DistanceMetric.L1) return this.decodedScores(q, metric);
+        const rotated = pq.rotation ? multiplyMatrixVector(pq.rotation, q) : q;
+        return this.rescaledScores(rotated, metric, pq.codebooks, pq.offsets);
+      }
+
+      case CompressionMethod.SCALAR_QUANTIZATION: {
+        const pq = this.scalarCodebooks!;
+        if (!norms) return this.productQuantizerScores(q, metric, pq);
+        if (metric === DistanceMetric.L1) return this.decodedScores(q, metric);
+        return this.rescaledScores(q, metric, pq.codebooks, pq.offsets);
+      }
+
+      case CompressionMethod.RESIDUAL_QUANTIZATION:
+        if (metric === DistanceMetric.L1) return this.decodedScores(q, metric);
+        return this.residualScores(q, metric);
+
+      case CompressionMethod.BINARY_QUANTIZATION:
+        return hammingScores(encodeBinaryQuantizer([q])[0], codes, count);
+
+      default: {
+        // Float codes (random projection or raw passthrough)
+        const projected = this.model.projection ? projectVectors([q], this.model.projection)[0] : q;
+        return coordinateScores(projected, codes, count, codeLength, metric, normOf);
+      }
+    }
+  }
+
+  /**
+   * Scores against fully decoded vectors (for metrics codebook tables cannot express)
+   */
+  private decodedScores(q: Vector, metric: DistanceMetric): Float64Array {
+    const decoded = decodeVectors(this.model, unpackCodes(this.encoded));
+    return Float64Array.from(decoded, x => distance(q, x, metric));
+  }
+
+  /**
+   * Codebook scores for vectors stored as unit-space centroids times a
+   * quantized norm n: per-code tables of q·c and ‖c‖² give
+   * ‖q − n·x̂‖² = ‖q‖² − 2n·q·x̂ + n²‖x̂‖², −n·q·x̂ and the (scale-free)
+   * cosine (L1 has no such decomposition).
+   * @param q - Query (rotated for OPQ)
+   * @param books - Codebook per code position
+   * @param offsets - Query offset of each codebook's subspace
+   */
+  private rescaledScores(
+    q: Vector,
+    metric: DistanceMetric,
+    books: Vector[][],
+    offsets: number[]
+  ): Float64Array {
+    const { count } = this.encoded.header;
+    const { codes, codeLength } = this;
+    const norms = this.norms!;
+    const dotTables = books.map((book, m) => book.map(c => partialDot(q, c, offsets[m])));
+    const normTables = books.map(book => book.map(c => partialDot(c, c, 0)));
+    const qNormSq = partialDot(q, q, 0);
+    const out = new Float64Array(count);
+
+    for (let i = 0; i < count; i++) {
+      let dot = 0;
+      let normSq = 0;
+      for (let m = 0; m < codeLength; m++) {
+        const code = codes[i * codeLength + m];
+        dot += dotTables[m][code];
+        normSq += normTables[m][code];
+      }
+      out[i] = scoreFromDot(metric, qNormSq, dot, normSq, norms[i]);
+    }
+    return out;
+  }
+
+  /**
+   * Residual quantization scores: per-stage tables of q·c summed over a
+   * vector's codes give q·x̂; stage centroids are not orthogonal, so ‖x̂‖²
+   * comes from the per-vector norms computed at construction
+   */
+  private residualScores(q: Vector, metric: DistanceMetric): Float64Array {
+    const { count } = this.encoded.header;
+    const { codes, codeLength } = this;
+    const normSqs = this.residualNorms!;
+    const norms = this.norms;
+    const dotTables = this.model.residualQuantizer!.codebooks.map(book =>
+      book.map(c => partialDot(q, c, 0))
+    );
+    const qNormSq = partialDot(q, q, 0);
+    const out = new Float64Array(count);
+
+    for (let i = 0; i < count; i++) {
+      let dot = 0;
+      for (let s = 0; s < codeLength; s++) dot += dotTables[s][codes[i * codeLength + s]];
+      out[i] = scoreFromDot(metric, qNormSq, dot, normSqs[i], norms ? norms[i] : 1);
+    }
+    return out;
+  }
+
+  /**
+   * Asymmetric distance computation: per-subspace tables of partial
+   * distances (or dot products and centroid norms for COSINE) summed over
+   * each vector's codes. The OPQ rotation is orthogonal, so it preserves
+   * every metric but L1 once the query is rotated; rotated L1 falls back
+   * to decoded vectors.
+   */
+  private productQuantizerScores(
+    q: Vector,
+    metric: DistanceMetric,
+    pq: ProductQuantizer
+  ): Float64Array {
+    const { count } = this.encoded.header;
+    const { codes, codeLength } = this;
+
+    if (pq.rotation && metric === DistanceMetric.L1) return this.decodedScores(q, metric);
+
+    const rotated = pq.rotation ? multiplyMatrixVector(pq.rotation, q) : q;
+    const out = new Float64Array(count);
+
+    const partial = (m: number, centroid: Vector): number => {
+      const offset = pq.offsets[m];
+      switch (metric) {
+        case DistanceMetric.INNER_PRODUCT:
+        case DistanceMetric.COSINE:
+          return -partialDot(rotated, centroid, offset);
+        case DistanceMetric.L1:
+          return distance(rotated.slice(offset, offset + centroid.length), centroid, metric);
+        default:
+          return squaredDistance(rotated, centroid, offset, centroid.length);
+      }
+    };
+    const tables = pq.codebooks.map((book, m) => book.map(centroid => partial(m, centroid)));
+
+    if (metric !== DistanceMetric.COSINE) {
+      for (let i = 0; i < count; i++) {
+        let sum = 0;
+        for (let m = 0; m < codeLength; m++) sum += tables[m][codes[i * codeLength + m]];
+        out[i] = sum;
+      }
+      return out;
+    }
+
+    // Cosine: ‖x̂‖² is the sum of the chosen centroids' squared norms
+    const normTables = pq.codebooks.map(book => book.map(c => partialDot(c, c, 0)));
+    const qNorm = Math.sqrt(partialDot(rotated, rotated, 0));
+    for (let i = 0; i < count; i++) {
+      let negDot = 0;
+      let normSq = 0;
+      for (let m = 0; m < codeLength; m++) {
+        const code = codes[i * codeLength + m];
+        negDot += tables[m][code];
+        normSq += normTables[m][code];
+      }
+      const denom = qNorm * Math.sqrt(normSq);
+      out[i] = denom > 0 ? 1 + negDot / denom : 1;
+    }
+    return out;
+  }
+}
+
+/**
+ * Scores for codes that are coordinates times a per-vector scale (grid
+ * indices × step, or float codes × 1)
+ */
+function coordinateScores(
+  q: Vector,
+  codes: ArrayLike<number>,
+  count: number,
+  codeLength: number,
+  metric: DistanceMetric,
+  scaleOf: (i: number) => number
+): Float64Array {
+  const out = new Float64Array(count);
+  const qNorm = Math.sqrt(partialDot(q, q, 0));
+
+  for (let i = 0; i < count; i++) {
+    const scale = scaleOf(i);
+    const base = i * codeLength;
+    let sum = 0;
+    let normSq = 0;
+    for (let d = 0; d < codeLength; d++) {
+      const x = codes[base + d] * scale;
+      switch (metric) {
+        case DistanceMetric.INNER_PRODUCT:
+          sum -= q[d] * x;
+          break;
+        case DistanceMetric.COSINE:
+          sum += q[d] * x;
+          normSq += x * x;
+          break;
+        case DistanceMetric.L1:
+          sum += Math.abs(q[d] - x);
+          break;
+        default: {
+          const diff = q[d] - x;
+          sum += diff * diff;
+        }
+      }
+    }
+    if (metric === DistanceMetric.COSINE) {
+      const denom = qNorm * Math.sqrt(normSq);
+      out[i] = denom > 0 ? 1 - sum / denom : 1;
+    } else {
+      out[i] = sum;
+    }
+  }
+  return out;
+}
+
+/**
+ * Score of a stored vector n·x̂ from q·x̂ and ‖x̂‖²: ‖q − n·x̂‖² (squared
+ * EUCLIDEAN), −n·q·x̂ (INNER_PRODUCT) or the scale-free cosine distance
+ */
+function scoreFromDot(
+  metric: DistanceMetric,
+  qNormSq: number,
+  dot: number,
+  normSq: number,
+  n: number
+): number {
+  switch (metric) {
+    case DistanceMetric.INNER_PRODUCT:
+      return -n * dot;
+    case DistanceMetric.COSINE: {
+      const denom = Math.sqrt(qNormSq * normSq);
+      return denom > 0 ? 1 - dot / denom : 1;
+    }
+    default:
+      return qNormSq - 2 * n * dot + n * n * normSq;
+  }
+}
+
+/**
+ * Squared norm of every residual quantization reconstruction (sum of its
+ * stage centroids)
+ */
+function reconstructionNorms(
+  rq: ResidualQuantizer,
+  codes: ArrayLike<number>,
+  codeLength: number,
+  dim: number
+): Float64Array {
+  const count = codeLength > 0 ? codes.length / codeLength : 0;
+  const out = new Float64Array(count);
+  const v = new Float64Array(dim);
+  for (let i = 0; i < count; i++) {
+    v.fill(0);
+    for (let s = 0; s < codeLength; s++) {
+      const c = rq.codebooks[s][codes[i * codeLength + s]];
+      for (let d = 0; d < dim; d++) v[d] += c[d];
+    }
+    let sum = 0;
+    for (let d = 0; d < dim; d++) sum += v[d] * v[d];
+    out[i] = sum;
+  }
+  return out;
+}
+
+/**
+ * Dot product of query[offset .. offset + centroid.length) and a centroid
+ */
+function partialDot(query: Vector, centroid: Vector, offset: number): number {
+  let sum = 0;
+  for (let d = 0; d < centroid.length; d++) sum += query[offset + d] * centroid[d];
+  return sum;
+}
+
+/**
+ * Squared distance between query[offset .. offset + length) and a centroid
+ */
+function squaredDistance(query: Vector, centroid: Vector, offset: number, length: number): number {
+  let sum = 0;
+  for (let d = 0; d < length; d++) {
+    const diff = query[offset + d] - centroid[d];
+    sum += diff * diff;
+  }
+  return sum;
+}
@@ -0,0 +1,390 @@
+/**
+ * Versioned binary serialization for compressed datasets
+ *
+ * Layout (little-endian):
+ *   0   magic "VCMP"
+ *   4   format version (u16)
+ *   6   reserved (u16)
+ *   8   payload length (u32)
+ *   12  CRC-32 of payload (u32)
+ *   16  payload: metadata length (u32), UTF-8 JSON metadata (model,
+ *       compression options, optional metrics), then binary blocks
+ *       (codes, levels, norms, codebooks) each aligned to 8 bytes
+ *
+ * The JSON metadata lists each block's name, element type and length, so
+ * readers can locate blocks without knowing the method up front.
+ */
+
+import {
+  CodeArray,
+  CompressionAnalysisResult,
+  CompressionMethod,
+  CompressionOptions,
+  CompressionResult,
+  CompressorModel,
+  DeserializedResult,
+  EncodedHeader,
+  EncodedVectors,
+  ProjectionType,
+  DistanceMetric,
+  NormQuantizer,
+} from './types';
+import { createRandomProjection } from './projection';
+import { decodeVectors } from './model';
+import { unpackCodes } from './encoding';
+import { VERSION } from './version';
+
+/** File magic: "VCMP" */
+const MAGIC = [0x56, 0x43, 0x4d, 0x50];
+
+/** Current binary format version */
+export const FORMAT_VERSION = 1;
+
+const HEADER_BYTES = 16;
+
+const ARRAY_TYPES = {
+  uint8: Uint8Array,
+  uint16: Uint16Array,
+  uint32: Uint32Array,
+  int8: Int8Array,
+  int16: Int16Array,
+  int32: Int32Array,
+  float32: Float32Array,
+  float64: Float64Array,
+};
+
+type BlockType = keyof typeof ARRAY_TYPES;
+
+interface BlockInfo {
+  name: string;
+  type: BlockType;
+  length: number;
+}
+
+interface Metadata {
+  version: string;
+  header: EncodedHeader;
+  model: {
+    method: CompressionMethod;
+    dim: number;
+    normalize: boolean;
+    metric?: DistanceMetric;
+    gridStep?: number;
+    boundaryMargin?: number;
+    boundaryLevels?: number;
+    centroidCount?: number;
+    projection?: { type: ProjectionType; inputDim: number; targetDim: number; seed: number };
+    productQuantizer?: { dim: number; offsets: number[]; codebookSizes: number[]; rotated: boolean };
+    scalarQuantizer?: { bits: number };
+    residualQuantizer?: { codebookSizes: number[]; distortion: number[] };
+    normQuantizer?: NormQuantizer;
+  };
+  compressionRatio: number;
+  options?: Required<CompressionOptions>;
+  gridStep?: number;
+  metrics?: CompressionAnalysisResult['metrics'];
+  regime?: CompressionAnalysisResult['regime'];
+  warnings?: string[];
+  blocks: BlockInfo[];
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 (IEEE 802.3) checksum
+ */
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function blockType(array: CodeArray): BlockType {
+  for (const [name, ctor] of Object.entries(ARRAY_TYPES)) {
+    if (array instanceof ctor) return name as BlockType;
+  }
+  throw new Error('Unsupported code array type');
+}
+
+function align8(n: number): number {
+  return Math.ceil(n / 8) * 8;
+}
+
+/**
+ * Serialize a compressed dataset to a self-describing binary buffer
+ * @param result - Result of compress() or compressWithAnalysis()
+ * @param options - includeMetrics: store metrics, regime and warnings (default: true)
+ * @returns Serialized bytes
+ */
+export function serialize(
+  result: CompressionResult | CompressionAnalysisResult,
+  options: { includeMetrics?: boolean } = {}
+): Uint8Array {
+  const { model, encoded } = result;
+  if (!model || !encoded) {
+    throw new Error('Cannot serialize a result without a fitted model and encoded codes');
+  }
+  const includeMetrics = options.includeMetrics ?? true;
+
+  const blocks: { info: BlockInfo; data: CodeArray }[] = [];
+  const addBlock = (name: string, data: CodeArray) => {
+    blocks.push({ info: { name, type: blockType(data), length: data.length }, data });
+  };
+
+  addBlock('codes', encoded.codes);
+  if (encoded.levels) addBlock('levels', encoded.levels);
+  if (encoded.norms) addBlock('norms', encoded.norms);
+  if (model.centroids) addBlock('centroids', Float32Array.from(model.centroids.flat()));
+  if (model.productQuantizer) {
+    const pq = model.productQuantizer;
+    pq.codebooks.forEach((book, m) => addBlock(`codebook.${m}`, Float32Array.from(book.flat())));
+    if (pq.rotation) addBlock('rotation', Float32Array.from(pq.rotation.flat()));
+  }
+  if (model.scalarQuantizer) {
+    addBlock('sq.min', Float32Array.from(model.scalarQuantizer.min));
+    addBlock('sq.max', Float32Array.from(model.scalarQuantizer.max));
+  }
+  if (model.binaryQuantizer) {
+    addBlock('bq.scales', Float32Array.from(model.binaryQuantizer.scales));
+  }
+  model.residualQuantizer?.codebooks.forEach((book, s) =>
+    addBlock(`rq.codebook.${s}`, Float32Array.from(book.flat()))
+  );
+
+  const metadata: Metadata = {
+    version: VERSION,
+    header: encoded.header,
+    model: {
+      method: model.method,
+      dim: model.dim,
+      normalize: model.normalize,
+      metric: model.metric,
+      gridStep: model.gridStep,
+      boundaryMargin: model.boundaryMargin,
+      boundaryLevels: model.boundaryLevels,
+      centroidCount: model.centroids?.length,
+      // Projection weights are regenerated from the seed
+      projection: model.projection && {
+        type: model.projection.type,
+        inputDim: model.projection.inputDim,
+        targetDim: model.projection.targetDim,
+        seed: model.projection.seed,
+      },
+      productQuantizer: model.productQuantizer && {
+        dim: model.productQuantizer.dim,
+        offsets: model.productQuantizer.offsets,
+        codebookSizes: model.productQuantizer.codebooks.map(book => book.length),
+        rotated: !!model.productQuantizer.rotation,
+      },
+      scalarQuantizer: model.scalarQuantizer && { bits: model.scalarQuantizer.bits },
+      residualQuantizer: model.residualQuantizer && {
+        codebookSizes: model.residualQuantizer.codebooks.map(book => book.length),
+        distortion: model.residualQuantizer.distortion,
+      },
+      normQuantizer: model.normQuantizer,
+    },
+    compressionRatio: result.compressionRatio,
+    options: result.options,
+    blocks: blocks.map(b => b.info),
+  };
+  if ('metrics' in result) {
+    metadata.gridStep = result.gridStep;
+    if (includeMetrics) {
+      metadata.metrics = result.metrics;
+      metadata.regime = result.regime;
+      metadata.warnings = result.warnings;
+    }
+  }
+
+  const json = new TextEncoder().encode(JSON.stringify(metadata));
+  let payloadLength = align8(4 + json.length);
+  for (const b of blocks) payloadLength = align8(payloadLength + b.data.byteLength);
+
+  const buffer = new Uint8Array(HEADER_BYTES + payloadLength);
+  const view = new DataView(buffer.buffer);
+  MAGIC.forEach((byte, i) => view.setUint8(i, byte));
+  view.setUint16(4, FORMAT_VERSION, true);
+  view.setUint16(6, 0, true);
+  view.setUint32(8, payloadLength, true);
+
+  let offset = HEADER_BYTES;
+  view.setUint32(offset, json.length, true);
+  buffer.set(json, offset + 4);
+  offset = HEADER_BYTES + align8(4 + json.length);
+
+  for (const b of blocks) {
+    // Copy through a little-endian DataView so the format is platform-independent
+    const ctor = ARRAY_TYPES[b.info.type];
+    const bytesPer = ctor.BYTES_PER_ELEMENT;
+    for (let i = 0; i < b.data.length; i++) {
+      writeElement(view, offset + i * bytesPer, b.info.type, b.data[i]);
+    }
+    offset = HEADER_BYTES + align8(offset - HEADER_BYTES + b.data.byteLength);
+  }
+
+  view.setUint32(12, crc32(buffer.subarray(HEADER_BYTES)), true);
+  return buffer;
+}
+
+function writeElement(view: DataView, offset: number, type: BlockType, value: number): void {
+  switch (type) {
+    case 'uint8': view.setUint8(offset, value); break;
+    case 'uint16': view.setUint16(offset, value, true); break;
+    case 'uint32': view.setUint32(offset, value, true); break;
+    case 'int8': view.setInt8(offset, value); break;
+    case 'int16': view.setInt16(offset, value, true); break;
+    case 'int32': view.setInt32(offset, value, true); break;
+    case 'float32': view.setFloat32(offset, value, true); break;
+    case 'float64': view.setFloat64(offset, value, true); break;
+  }
+}
+
+function readElement(view: DataView, offset: number, type: BlockType): number {
+  switch (type) {
+    case 'uint8': return view.getUint8(offset);
+    case 'uint16': return view.getUint16(offset, true);
+    case 'uint32': return view.getUint32(offset, true);
+    case 'int8': return view.getInt8(offset);
+    case 'int16': return view.getInt16(offset, true);
+    case 'int32': return view.getInt32(offset, true);
+    case 'float32': return view.getFloat32(offset, true);
+    case 'float64': return view.getFloat64(offset, true);
+  }
+}
+
+function toRows(flat: CodeArray, width: number): number[][] {
+  const rows: number[][] = [];
+  for (let i = 0; i < flat.length; i += width) rows.push(Array.from(flat.subarray(i, i + width)));
+  return rows;
+}
+
+/**
+ * Restore a compressed dataset written by serialize()
+ * @param input - Serialized bytes
+ * @returns Model, packed codes, reconstructed vectors and (if stored) metrics
+ * @throws If the magic, format version or checksum do not match
+ */
+export function deserialize(input: Uint8Array | ArrayBuffer): DeserializedResult {
+  const buffer = input instanceof Uint8Array ? input : new Uint8Array(input);
+  if (buffer.length < HEADER_BYTES || MAGIC.some((byte, i) => buffer[i] !== byte)) {
+    throw new Error('Not a veccompress buffer (bad magic header)');
+  }
+
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const formatVersion = view.getUint16(4, true);
+  if (formatVersion < 1 || formatVersion > FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported format version ${formatVersion} (expected 1 to ${FORMAT_VERSION})`
+    );
+  }
+
+  const payloadLength = view.getUint32(8, true);
+  if (buffer.length < HEADER_BYTES + payloadLength) {
+    throw new Error('Truncated veccompress buffer');
+  }
+  const payload = buffer.subarray(HEADER_BYTES, HEADER_BYTES + payloadLength);
+  if (crc32(payload) !== view.getUint32(12, true)) {
+    throw new Error('Checksum mismatch - data is corrupted');
+  }
+
+  const jsonLength = view.getUint32(HEADER_BYTES, true);
+  const metadata: Metadata = JSON.parse(
+    new TextDecoder().decode(payload.subarray(4, 4 + jsonLength))
+  );
+
+  const blocks = new Map<string, CodeArray>();
+  let offset = align8(4 + jsonLength);
+  for (const info of metadata.blocks) {
+    const ctor = ARRAY_TYPES[info.type];
+    const data = new ctor(info.length);
+    for (let i = 0; i < info.length; i++) {
+      data[i] = readElement(view, HEADER_BYTES + offset + i * ctor.BYTES_PER_ELEMENT, info.type);
+    }
+    blocks.set(info.name, data);
+    offset = align8(offset + data.byteLength);
+  }
+
+  const meta = metadata.model;
+  const model: CompressorModel = {
+    method: meta.method,
+    dim: meta.dim,
+    normalize: meta.normalize,
+  };
+  if (meta.metric !== undefined) model.metric = meta.metric;
+  if (meta.gridStep !== undefined) model.gridStep = meta.gridStep;
+  if (meta.boundaryMargin !== undefined) model.boundaryMargin = meta.boundaryMargin;
+  if (meta.boundaryLevels !== undefined) model.boundaryLevels = meta.boundaryLevels;
+  if (meta.centroidCount !== undefined) {
+    model.centroids = toRows(blocks.get('centroids')!, meta.dim);
+  }
+  if (meta.projection) {
+    const p = meta.projection;
+    model.projection = createRandomProjection(p.inputDim, p.targetDim, p.seed, p.type);
+  }
+  if (meta.productQuantizer) {
+    const pq = meta.productQuantizer;
+    model.productQuantizer = {
+      dim: pq.dim,
+      offsets: pq.offsets,
+      codebooks: pq.codebookSizes.map((_, m) =>
+        toRows(blocks.get(`codebook.${m}`)!, pq.offsets[m + 1] - pq.offsets[m])
+      ),
+    };
+    if (pq.rotated) model.productQuantizer.rotation = toRows(blocks.get('rotation')!, pq.dim);
+  }
+  if (meta.scalarQuantizer) {
+    model.scalarQuantizer = {
+      bits: meta.scalarQuantizer.bits,
+      min: Array.from(blocks.get('sq.min')!),
+      max: Array.from(blocks.get('sq.max')!),
+    };
+  }
+  if (meta.residualQuantizer) {
+    model.residualQuantizer = {
+      codebooks: meta.residualQuantizer.codebookSizes.map((_, s) =>
+        toRows(blocks.get(`rq.codebook.${s}`)!, meta.dim)
+      ),
+      distortion: meta.residualQuantizer.distortion,
+    };
+  }
+  if (meta.method === CompressionMethod.BINARY_QUANTIZATION) {
+    model.binaryQuantizer = { scales: Array.from(blocks.get('bq.scales')!) };
+  }
+  if (meta.normQuantizer) model.normQuantizer = meta.normQuantizer;
+
+  const encoded: EncodedVectors = {
+    header: metadata.header,
+    codes: blocks.get('codes')!,
+    levels: blocks.get('levels') as Uint8Array | undefined,
+    norms: blocks.get('norms') as Uint8Array | Uint16Array | undefined,
+  };
+  const codes = unpackCodes(encoded);
+
+  return {
+    compressed: decodeVectors(model, codes),
+    compressionRatio: metadata.compressionRatio,
+    centroids: model.centroids,
+    codes: model.centroids ? codes.map(c => c[0]) : undefined,
+    projection: model.projection,
+    productQuantizer: model.productQuantizer,
+    pqCodes: model.productQuantizer
+      ? codes.map(c => Uint8Array.from(model.normQuantizer ? c.slice(0, -1) : c))
+      : undefined,
+    model,
+    encoded,
+    options: metadata.options,
+    metrics: metadata.metrics,
+    regime: metadata.regime,
+    gridStep: metadata.gridStep,
+    warnings: metadata.warnings,
+    version: metadata.version,
+  };
+}
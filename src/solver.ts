@@ -0,0 +1,196 @@
+/**
+ * Measured search over methods and parameters (target compression ratio)
+ */
+
+import {
+  Vector,
+  CompressionMethod,
+  CompressionOptions,
+  ParameterGrid,
+  RatioSolution,
+  SolverCandidate,
+  SweepPoint,
+  SweepResult,
+} from './types';
+import { VectorCompressor } from './compressor';
+import { strideSample, evaluateSetting } from './evaluate';
+import { detectRegime } from './metrics';
+
+/**
+ * OPQ is left out of the default methods above this dimensionality: its
+ * dense eigen decompositions cost O(d³) per rotation update (tens of
+ * seconds per setting at d = 256)
+ */
+const MAX_DEFAULT_OPQ_DIM = 128;
+
+/**
+ * Methods searched when none are given
+ * @param dim - Input dimensionality
+ * @returns Every method, except OPQ above 128 dimensions
+ */
+export function defaultSolverMethods(dim: number): CompressionMethod[] {
+  return Object.values(CompressionMethod).filter(
+    method =>
+      method !== CompressionMethod.OPTIMIZED_PRODUCT_QUANTIZATION || dim <= MAX_DEFAULT_OPQ_DIM
+  );
+}
+
+/**
+ * Parameter grid for a method
+ * @param method - Compression method
+ * @param dim - Input dimensionality
+ * @param grid - Parameter values overriding the defaults
+ * @returns Settings to evaluate (method-specific options only)
+ */
+export function candidateSettings(
+  method: CompressionMethod,
+  dim: number,
+  grid: ParameterGrid = {}
+): CompressionOptions[] {
+  const gridSteps = grid.gridStep ?? [0.02, 0.05, 0.1, 0.2, 0.4];
+  const subQuantizers = (grid.subQuantizers ?? [2, 4, 8, 16, 32]).filter(m => m <= dim);
+
+  switch (method) {
+    case CompressionMethod.LATTICE:
+      return gridSteps.map(gridStep => ({ method, gridStep }));
+
+    case CompressionMethod.BOUNDARY_AWARE:
+      return gridSteps.map(gridStep => ({ method, gridStep, boundaryMargin: gridStep / 2 }));
+
+    case CompressionMethod.K_MEANS:
+      return (grid.clusterCount ?? [16, 64, 256]).map(clusterCount => ({ method, clusterCount }));
+
+    case CompressionMethod.RANDOM_PROJECTION: {
+      const dims = grid.targetDim ?? [2, 4, 8].map(f => Math.max(1, Math.floor(dim / f)));
+      return [...new Set(dims)].map(targetDim => ({ method, targetDim }));
+    }
+
+    case CompressionMethod.PRODUCT_QUANTIZATION:
+    case CompressionMethod.OPTIMIZED_PRODUCT_QUANTIZATION: {
+      const codebookSizes = grid.clusterCount ?? [256];
+      return subQuantizers.flatMap(m =>
+        codebookSizes.map(clusterCount => ({ method, subQuantizers: m, clusterCount }))
+      );
+    }
+
+    case CompressionMethod.RESIDUAL_QUANTIZATION: {
+      const codebookSizes = grid.clusterCount ?? [256];
+      return (grid.residualStages ?? [2, 4, 8]).flatMap(residualStages =>
+        codebookSizes.map(clusterCount => ({ method, residualStages, clusterCount }))
+      );
+    }
+
+    case CompressionMethod.SCALAR_QUANTIZATION:
+      return (grid.scalarBits ?? [4, 8]).map(scalarBits => ({ method, scalarBits }));
+
+    default:
+      return [{ method }];
+  }
+}
+
+/**
+ * Find the setting that reaches a target compression ratio with the best recall
+ *
+ * Every candidate setting is actually fitted and encoded on a sample; the
+ * ratio is measured in real bytes rather than estimated.
+ * @param vectors - Input vectors
+ * @param targetRatio - Desired compression ratio (e.g., 10 for 10×)
+ * @param options - Base options (normalize, seed, k) and `methods` to search
+ *   (default: defaultSolverMethods)
+ * @returns Best setting and the full recall/ratio trade-off explored
+ */
+export function solveCompressionRatio(
+  vectors: Vector[],
+  targetRatio: number,
+  options: CompressionOptions & { methods?: CompressionMethod[] } = {}
+): RatioSolution {
+  if (!vectors || vectors.length === 0) {
+    throw new Error('Cannot solve for a compression ratio on empty input');
+  }
+
+  const dim = vectors[0].length;
+  const { methods = defaultSolverMethods(dim), ...base } = options;
+  const sample = strideSample(vectors);
+
+  const explored: SolverCandidate[] = [];
+  for (const method of methods) {
+    for (const setting of candidateSettings(method, dim)) {
+      const resolved = new VectorCompressor({ ...base, ...setting }).getOptions();
+      const { metrics, compressionRatio } = evaluateSetting(sample, resolved, vectors.length);
+      explored.push({ options: setting, compressionRatio, recall10: metrics.recall10 });
+    }
+  }
+  explored.sort((a, b) => a.compressionRatio - b.compressionRatio);
+
+  const meeting = explored.filter(c => c.compressionRatio >= targetRatio);
+  const best =
+    meeting.length > 0
+      ? meeting.reduce((a, b) => (b.recall10 > a.recall10 ? b : a))
+      : explored[explored.length - 1];
+
+  return {
+    targetRatio,
+    best,
+    targetMet: meeting.length > 0,
+    sampleSize: sample.length,
+    explored,
+  };
+}
+
+/**
+ * Non-dominated points: no other point has both a higher-or-equal ratio
+ * and a better-or-equal score (with one strictly better)
+ */
+function paretoFrontier(points: SweepPoint[], score: (p: SweepPoint) => number): SweepPoint[] {
+  const byRatio = [...points].sort(
+    (a, b) => b.compressionRatio - a.compressionRatio || score(b) - score(a)
+  );
+  const frontier: SweepPoint[] = [];
+  let bestScore = -Infinity;
+  for (const point of byRatio) {
+    if (score(point) > bestScore) {
+      frontier.push(point);
+      bestScore = score(point);
+    }
+  }
+  return frontier.reverse();
+}
+
+/**
+ * Sweep methods × parameters on a sample and return the Pareto frontier
+ * of compression ratio vs. recall@10 and vs. collapse index
+ * @param vectors - Input vectors
+ * @param options - Base options (normalize, seed, k), `methods` to sweep
+ *   (default: defaultSolverMethods) and `grid` of parameter values
+ *   (default: per-method grid)
+ * @returns Every point with full metrics and regime, plus both frontiers
+ */
+export function sweepParetoFrontier(
+  vectors: Vector[],
+  options: CompressionOptions & { methods?: CompressionMethod[]; grid?: ParameterGrid } = {}
+): SweepResult {
+  if (!vectors || vectors.length === 0) {
+    throw new Error('Cannot sweep on empty input');
+  }
+
+  const dim = vectors[0].length;
+  const { methods = defaultSolverMethods(dim), grid, ...base } = options;
+  const sample = strideSample(vectors);
+
+  const points: SweepPoint[] = [];
+  for (const method of methods) {
+    for (const setting of candidateSettings(method, dim, grid)) {
+      const resolved = new VectorCompressor({ ...base, ...setting }).getOptions();
+      const { metrics, compressionRatio } = evaluateSetting(sample, resolved, vectors.length);
+      points.push({ options: setting, compressionRatio, metrics, regime: detectRegime(metrics) });
+    }
+  }
+  points.sort((a, b) => a.compressionRatio - b.compressionRatio);
+
+  return {
+    points,
+    recallFrontier: paretoFrontier(points, p => p.metrics.recall10),
+    collapseFrontier: paretoFrontier(points, p => -(p.metrics.collapseIndex ?? 0)),
+    sampleSize: sample.length,
+  };
+}
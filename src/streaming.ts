@@ -0,0 +1,183 @@
+/**
+ * Streaming compression for datasets that do not fit in memory
+ */
+
+import { Vector, CompressionMetrics, CompressorModel, EncodedVectors } from './types';
+import { SeededRNG, euclideanDistance } from './utils';
+import { encodeVectors, decodeVectors, referenceVectors } from './model';
+import { packCodes, unpackCodes, encodedByteLength, modelByteLength } from './encoding';
+import { calculateMetrics } from './metrics';
+
+/**
+ * Encoded chunk emitted by encodeStream()
+ */
+export interface EncodedChunk {
+  /** Index of the chunk's first vector in the stream */
+  offset: number;
+
+  /** Packed codes for the chunk */
+  encoded: EncodedVectors;
+}
+
+/**
+ * Options for encodeStream()
+ */
+export interface StreamOptions {
+  /** Vectors per emitted chunk (default: 1024) */
+  chunkSize?: number;
+
+  /** Accumulator that receives every chunk (for incremental metrics) */
+  metrics?: StreamingMetrics;
+}
+
+/**
+ * Incremental quality metrics for streamed compression
+ *
+ * Global distortion (MSE, per-dimension MSE, compression ratio) is exact over
+ * every vector seen; neighbor metrics (recall, MRR, k-variance, collapse index)
+ * are computed on a seeded reservoir sample so memory stays bounded.
+ *
+ * @example
+ * ```typescript
+ * const metrics = new StreamingMetrics(model, { sampleSize: 2000 });
+ * for await (const chunk of encodeStream(model, source, { metrics })) {
+ *   await write(chunk);
+ * }
+ * console.log(metrics.result().recall10);
+ * ```
+ */
+export class StreamingMetrics {
+  private readonly model: CompressorModel;
+  private readonly sampleSize: number;
+  private readonly k: number;
+  private readonly rng: SeededRNG;
+
+  private seen = 0;
+  private encodedBytes = 0;
+  private mseSum = 0;
+  private localDistortionSum = 0;
+  private perDimSum: number[];
+  private sampleOriginal: Vector[] = [];
+  private sampleCompressed: Vector[] = [];
+
+  constructor(
+    model: CompressorModel,
+    options: { sampleSize?: number; k?: number; seed?: number } = {}
+  ) {
+    this.model = model;
+    this.sampleSize = options.sampleSize ?? 1000;
+    this.k = options.k ?? 10;
+    this.rng = new SeededRNG(options.seed ?? 42);
+    this.perDimSum = new Array(model.dim).fill(0);
+  }
+
+  /**
+   * Accumulate a chunk
+   * @param original - Original vectors of the chunk
+   * @param encoded - Packed codes for the same vectors
+   */
+  add(original: Vector[], encoded: EncodedVectors): void {
+    const reconstructed = decodeVectors(this.model, unpackCodes(encoded));
+    const reference = referenceVectors(this.model, original);
+    const sameSpace = reconstructed.length > 0 && reconstructed[0].length === this.model.dim;
+    this.encodedBytes += encodedByteLength(encoded);
+
+    for (let i = 0; i < original.length; i++) {
+      const orig = reference[i];
+      const comp = reconstructed[i];
+
+      if (sameSpace) {
+        const dist = euclideanDistance(orig, comp);
+        this.mseSum += dist * dist;
+        this.localDistortionSum += dist;
+        for (let d = 0; d < orig.length; d++) this.perDimSum[d] += (orig[d] - comp[d]) ** 2;
+      }
+
+      // Reservoir sampling (Algorithm R)
+      if (this.seen < this.sampleSize) {
+        this.sampleOriginal.push(orig);
+        this.sampleCompressed.push(comp);
+      } else {
+        const j = Math.floor(this.rng.next() * (this.seen + 1));
+        if (j < this.sampleSize) {
+          this.sampleOriginal[j] = orig;
+          this.sampleCompressed[j] = comp;
+        }
+      }
+      this.seen++;
+    }
+  }
+
+  /** Number of vectors accumulated so far */
+  get count(): number {
+    return this.seen;
+  }
+
+  /**
+   * Metrics over everything accumulated so far
+   */
+  result(): CompressionMetrics {
+    const metrics = calculateMetrics(this.sampleOriginal, this.sampleCompressed, this.k, {
+      metric: this.model.metric,
+    });
+    if (this.seen === 0) return metrics;
+
+    const totalBytes = this.encodedBytes + modelByteLength(this.model);
+    metrics.compressionRatio = totalBytes > 0 ? (this.seen * this.model.dim * 4) / totalBytes : 1;
+
+    // Exact global distortion for same-space reconstructions
+    if (metrics.perDimensionMSE && metrics.perDimensionMSE.length > 0) {
+      const perDimensionMSE = this.perDimSum.map(v => v / this.seen);
+      const maxDimMSE = Math.max(...perDimensionMSE);
+      const meanDimMSE = perDimensionMSE.reduce((a, b) => a + b, 0) / perDimensionMSE.length;
+
+      metrics.mse = this.mseSum / this.seen;
+      metrics.localDistortion = this.localDistortionSum / this.seen;
+      metrics.perDimensionMSE = perDimensionMSE;
+      metrics.dimensionCollapseRatio = meanDimMSE > 0 ? maxDimMSE / meanDimMSE : 1;
+    }
+
+    return metrics;
+  }
+}
+
+/**
+ * Encode a stream of vectors against a pre-fitted model
+ * @param model - Model returned by VectorCompressor.fit()
+ * @param source - (Async) iterable of vectors or of vector batches
+ * @param options - Chunk size and optional metrics accumulator
+ * @returns Async iterable of packed chunks, in input order
+ */
+export async function* encodeStream(
+  model: CompressorModel,
+  source: AsyncIterable<Vector | Vector[]> | Iterable<Vector | Vector[]>,
+  options: StreamOptions = {}
+): AsyncGenerator<EncodedChunk> {
+  const chunkSize = Math.max(1, Math.floor(options.chunkSize ?? 1024));
+  let buffer: Vector[] = [];
+  let offset = 0;
+
+  const flush = (): EncodedChunk => {
+    const encoded = packCodes(model, encodeVectors(model, buffer));
+    options.metrics?.add(buffer, encoded);
+    const chunk = { offset, encoded };
+    offset += buffer.length;
+    buffer = [];
+    return chunk;
+  };
+
+  for await (const item of source) {
+    if (item.length === 0) continue;
+    if (Array.isArray(item[0])) {
+      for (const v of item as Vector[]) {
+        buffer.push(v);
+        if (buffer.length >= chunkSize) yield flush();
+      }
+    } else {
+      buffer.push(item as Vector);
+      if (buffer.length >= chunkSize) yield flush();
+    }
+  }
+
+  if (buffer.length > 0) yield flush();
+}
@@ -0,0 +1,298 @@
+/**
+ * Topological collapse metrics: Vietoris–Rips persistent homology (H0/H1)
+ * and bottleneck distance between persistence diagrams
+ */
+
+import {
+  Vector,
+  DistanceMetric,
+  PersistencePair,
+  PersistenceDiagram,
+  TopologyMetrics,
+  TopologyOptions,
+} from './types';
+import { distance } from './utils';
+
+/** Default vectors sampled for the Rips complex */
+const SAMPLE_LIMIT = 64;
+
+/**
+ * Persistence diagrams (H0 and H1) of the Vietoris–Rips filtration
+ *
+ * H0 comes from Kruskal's algorithm on the pairwise distances (every point
+ * is born at 0 and dies when its component merges; one component never
+ * dies). H1 pairs loop-creating edges with the triangles that fill them in,
+ * by standard column reduction of the triangle boundary matrix; since the
+ * full complex is contractible, every H1 class dies. Zero-persistence pairs
+ * are omitted.
+ * @param points - Point cloud (keep it small: the complex has O(n³) triangles)
+ * @param metric - Distance between points (default: EUCLIDEAN)
+ * @returns H0 and H1 persistence pairs, sorted by birth then death
+ */
+export function vietorisRipsPersistence(
+  points: Vector[],
+  metric: DistanceMetric = DistanceMetric.EUCLIDEAN
+): PersistenceDiagram {
+  const n = points.length;
+  if (n === 0) return { h0: [], h1: [] };
+
+  // Edges in filtration order (by length, ties by vertex pair)
+  const edgeCount = (n * (n - 1)) / 2;
+  const edgeU = new Int32Array(edgeCount);
+  const edgeV = new Int32Array(edgeCount);
+  const edgeLength = new Float64Array(edgeCount);
+  for (let i = 0, e = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++, e++) {
+      edgeU[e] = i;
+      edgeV[e] = j;
+      edgeLength[e] = distance(points[i], points[j], ripsMetric(metric));
+    }
+  }
+  const order = Array.from({ length: edgeCount }, (_, e) => e);
+  order.sort((a, b) => edgeLength[a] - edgeLength[b] || a - b);
+
+  // Filtration position of the edge between each vertex pair
+  const position = new Int32Array(n * n);
+  const weight = new Float64Array(edgeCount);
+  order.forEach((e, pos) => {
+    position[edgeU[e] * n + edgeV[e]] = pos;
+    position[edgeV[e] * n + edgeU[e]] = pos;
+    weight[pos] = edgeLength[e];
+  });
+
+  // H0: union-find over edges in filtration order
+  const parent = Array.from({ length: n }, (_, i) => i);
+  const find = (x: number): number => {
+    while (parent[x] !== x) {
+      parent[x] = parent[parent[x]];
+      x = parent[x];
+    }
+    return x;
+  };
+  const h0: PersistencePair[] = [];
+  let merges = 0;
+  for (let pos = 0; pos < edgeCount && merges < n - 1; pos++) {
+    const e = order[pos];
+    const ru = find(edgeU[e]);
+    const rv = find(edgeV[e]);
+    if (ru === rv) continue;
+    parent[ru] = rv;
+    merges++;
+    if (weight[pos] > 0) h0.push({ birth: 0, death: weight[pos] });
+  }
+  h0.push({ birth: 0, death: Infinity });
+
+  // H1: every edge that did not merge components creates a loop
+  const loops = edgeCount - merges;
+  const h1: PersistencePair[] = [];
+  if (loops > 0) {
+    // Triangles as sorted edge-position triples, in filtration order
+    // (by their longest edge, then the next longest)
+    const triangles: Int32Array[] = [];
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        for (let k = j + 1; k < n; k++) {
+          const boundary = Int32Array.of(
+            position[i * n + j],
+            position[i * n + k],
+            position[j * n + k]
+          );
+          triangles.push(boundary.sort());
+        }
+      }
+    }
+    triangles.sort((a, b) => a[2] - b[2] || a[1] - b[1] || a[0] - b[0]);
+
+    // Column reduction: reduce each boundary until its pivot (latest edge)
+    // is not owned by an earlier column; that edge's loop dies here
+    const owner = new Map<number, Int32Array>();
+    let paired = 0;
+    for (const triangle of triangles) {
+      let column = triangle;
+      let pivot = column[column.length - 1];
+      while (owner.has(pivot)) {
+        column = symmetricDifference(column, owner.get(pivot)!);
+        if (column.length === 0) break;
+        pivot = column[column.length - 1];
+      }
+      if (column.length === 0) continue;
+
+      owner.set(pivot, column);
+      const birth = weight[pivot];
+      const death = weight[triangle[2]];
+      if (death > birth) h1.push({ birth, death });
+      if (++paired === loops) break;
+    }
+  }
+
+  const byBirth = (a: PersistencePair, b: PersistencePair) =>
+    a.birth - b.birth || a.death - b.death;
+  return { h0: h0.sort(byBirth), h1: h1.sort(byBirth) };
+}
+
+/**
+ * Bottleneck distance between two persistence diagrams (of one dimension)
+ *
+ * The smallest ε such that the points can be matched one-to-one, each to a
+ * point of the other diagram within ε in L∞ or to the diagonal within ε.
+ * Points that never die are matched among themselves by birth.
+ * @param a - First diagram
+ * @param b - Second diagram
+ * @returns Bottleneck distance (Infinity if the essential class counts differ)
+ */
+export function bottleneckDistance(a: PersistencePair[], b: PersistencePair[]): number {
+  const essentialA = a.filter(p => p.death === Infinity).map(p => p.birth).sort((x, y) => x - y);
+  const essentialB = b.filter(p => p.death === Infinity).map(p => p.birth).sort((x, y) => x - y);
+  if (essentialA.length !== essentialB.length) return Infinity;
+
+  // Sorted matching is optimal for points on a line
+  let essential = 0;
+  for (let i = 0; i < essentialA.length; i++) {
+    essential = Math.max(essential, Math.abs(essentialA[i] - essentialB[i]));
+  }
+
+  const finiteA = a.filter(p => p.death !== Infinity && p.death > p.birth);
+  const finiteB = b.filter(p => p.death !== Infinity && p.death > p.birth);
+  if (finiteA.length + finiteB.length === 0) return essential;
+
+  // Left: A then diagonal copies of B; right: B then diagonal copies of A.
+  // cost[l][r] is the price of matching left l with right r
+  const na = finiteA.length;
+  const nb = finiteB.length;
+  const size = na + nb;
+  const cost: Float64Array[] = [];
+  for (let l = 0; l < size; l++) {
+    const row = new Float64Array(size);
+    for (let r = 0; r < size; r++) {
+      if (l < na && r < nb) {
+        row[r] = Math.max(
+          Math.abs(finiteA[l].birth - finiteB[r].birth),
+          Math.abs(finiteA[l].death - finiteB[r].death)
+        );
+      } else if (l < na) {
+        row[r] = r - nb === l ? halfPersistence(finiteA[l]) : Infinity;
+      } else if (r < nb) {
+        row[r] = l - na === r ? halfPersistence(finiteB[r]) : Infinity;
+      } else {
+        row[r] = 0;
+      }
+    }
+    cost.push(row);
+  }
+
+  // Smallest candidate cost admitting a perfect matching (binary search)
+  const candidates = Array.from(new Set(cost.flatMap(row => Array.from(row))))
+    .filter(c => c !== Infinity)
+    .sort((x, y) => x - y);
+  let lo = 0;
+  let hi = candidates.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (hasPerfectMatching(cost, candidates[mid])) hi = mid;
+    else lo = mid + 1;
+  }
+  return Math.max(essential, candidates[lo]);
+}
+
+/**
+ * Persistent homology of the original and compressed samples and the
+ * bottleneck distances between their diagrams
+ * @param original - Original vectors
+ * @param compressed - Compressed vectors (same order as original)
+ * @param options - Sample size and metric
+ * @returns Bottleneck distances, the topological distortion and both diagrams
+ */
+export function calculateTopologyMetrics(
+  original: Vector[],
+  compressed: Vector[],
+  options: TopologyOptions = {}
+): TopologyMetrics {
+  const n = Math.min(original?.length ?? 0, compressed?.length ?? 0);
+  const limit = Math.max(2, Math.floor(options.sampleSize ?? SAMPLE_LIMIT));
+  const step = Math.max(1, Math.floor(n / limit));
+  const indices: number[] = [];
+  for (let i = 0; i < n && indices.length < limit; i += step) indices.push(i);
+
+  const metric = options.metric ?? DistanceMetric.EUCLIDEAN;
+  const originalSample = indices.map(i => original[i]);
+  const originalDiagram = vietorisRipsPersistence(originalSample, metric);
+  const compressedDiagram = vietorisRipsPersistence(indices.map(i => compressed[i]), metric);
+
+  const bottleneckH0 = bottleneckDistance(originalDiagram.h0, compressedDiagram.h0);
+  const bottleneckH1 = bottleneckDistance(originalDiagram.h1, compressedDiagram.h1);
+
+  // Scale-free: relative to the diameter of the original sample
+  let diameter = 0;
+  for (let i = 0; i < originalSample.length; i++) {
+    for (let j = i + 1; j < originalSample.length; j++) {
+      diameter = Math.max(diameter, distance(originalSample[i], originalSample[j], ripsMetric(metric)));
+    }
+  }
+
+  return {
+    bottleneckH0,
+    bottleneckH1,
+    topologicalDistortion: diameter > 0 ? Math.max(bottleneckH0, bottleneckH1) / diameter : 0,
+    original: originalDiagram,
+    compressed: compressedDiagram,
+  };
+}
+
+/**
+ * Rips filtrations need a non-negative dissimilarity: negated inner
+ * products are replaced by Euclidean distance
+ */
+function ripsMetric(metric: DistanceMetric): DistanceMetric {
+  return metric === DistanceMetric.INNER_PRODUCT ? DistanceMetric.EUCLIDEAN : metric;
+}
+
+/**
+ * Cost of matching a diagram point to the diagonal
+ */
+function halfPersistence(p: PersistencePair): number {
+  return (p.death - p.birth) / 2;
+}
+
+/**
+ * Symmetric difference of two ascending integer arrays (Z/2 column addition)
+ */
+function symmetricDifference(a: Int32Array, b: Int32Array): Int32Array {
+  const result: number[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (j >= b.length || (i < a.length && a[i] < b[j])) result.push(a[i++]);
+    else if (i >= a.length || b[j] < a[i]) result.push(b[j++]);
+    else {
+      i++;
+      j++;
+    }
+  }
+  return Int32Array.from(result);
+}
+
+/**
+ * Whether a perfect matching exists using only pairs costing at most
+ * `limit` (Kuhn's augmenting paths)
+ */
+function hasPerfectMatching(cost: Float64Array[], limit: number): boolean {
+  const size = cost.length;
+  const matchOfRight = new Int32Array(size).fill(-1);
+
+  const augment = (l: number, visited: Uint8Array): boolean => {
+    for (let r = 0; r < size; r++) {
+      if (visited[r] || cost[l][r] > limit) continue;
+      visited[r] = 1;
+      if (matchOfRight[r] === -1 || augment(matchOfRight[r], visited)) {
+        matchOfRight[r] = l;
+        return true;
+      }
+    }
+    return false;
+  };
+
+  for (let l = 0; l < size; l++) {
+    if (!augment(l, new Uint8Array(size))) return false;
+  }
+  return true;
+}
@@ -19,6 +19,267 @@ export enum CompressionMethod {
   
   /** Dimensionality reduction baseline */
   RANDOM_PROJECTION = 'RANDOM_PROJECTION',
+  
+  /** Product Quantization - Per-subspace codebooks with byte codes */
+  PRODUCT_QUANTIZATION = 'PRODUCT_QUANTIZATION',
+  
+  /** Optimized Product Quantization - PQ after a learned variance-balancing rotation */
+  OPTIMIZED_PRODUCT_QUANTIZATION = 'OPTIMIZED_PRODUCT_QUANTIZATION',
+  
+  /** Scalar Quantization (SQ8/SQ4) - 8 or 4 bits per component over per-dimension ranges */
+  SCALAR_QUANTIZATION = 'SCALAR_QUANTIZATION',
+  
+  /** Binary Quantization - One sign bit per component, packed 32 per word */
+  BINARY_QUANTIZATION = 'BINARY_QUANTIZATION',
+  
+  /** Residual Quantization - Stages of k-means codebooks, each encoding the previous residual */
+  RESIDUAL_QUANTIZATION = 'RESIDUAL_QUANTIZATION',
+}
+
+/**
+ * Distance used to rank neighbors (smaller is nearer)
+ */
+export enum DistanceMetric {
+  /** L2 distance ‖a − b‖ */
+  EUCLIDEAN = 'EUCLIDEAN',
+  
+  /** Cosine distance 1 − cos(a, b) */
+  COSINE = 'COSINE',
+  
+  /** Negated inner product −a·b (maximum inner product search) */
+  INNER_PRODUCT = 'INNER_PRODUCT',
+  
+  /** L1 (Manhattan) distance Σ|a − b| */
+  L1 = 'L1',
+}
+
+/**
+ * How metric queries are sampled from the dataset
+ */
+export enum SamplingStrategy {
+  /** Evenly spaced indices */
+  STRIDE = 'STRIDE',
+  
+  /** Seeded uniform sample without replacement */
+  RANDOM = 'RANDOM',
+  
+  /** One seeded random index per equal-size block of the dataset */
+  STRATIFIED = 'STRATIFIED',
+}
+
+/**
+ * How scalar quantization picks each dimension's range
+ */
+export enum ScalarCalibration {
+  /** Full [min, max] of the training values */
+  MIN_MAX = 'MIN_MAX',
+  
+  /** Central percentile range (outliers are clipped) */
+  PERCENTILE = 'PERCENTILE',
+}
+
+/**
+ * Projection matrix families for random projection
+ */
+export enum ProjectionType {
+  /** Dense Gaussian entries N(0, 1/targetDim) */
+  GAUSSIAN = 'GAUSSIAN',
+  
+  /** Sparse Achlioptas entries sqrt(3/targetDim) × {+1, 0, -1} with probabilities {1/6, 2/3, 1/6} */
+  SPARSE = 'SPARSE',
+}
+
+/**
+ * Seeded random projection (Johnson-Lindenstrauss) matrix
+ */
+export interface RandomProjection {
+  /** Projection family */
+  type: ProjectionType;
+  
+  /** Input dimensionality */
+  inputDim: number;
+  
+  /** Output dimensionality */
+  targetDim: number;
+  
+  /** Seed the matrix was generated from */
+  seed: number;
+  
+  /** Projection weights (targetDim rows × inputDim columns) */
+  weights: Vector[];
+}
+
+/**
+ * Trained product quantizer (one codebook per subspace)
+ */
+export interface ProductQuantizer {
+  /** Input dimensionality */
+  dim: number;
+  
+  /** Subspace boundaries: subspace m covers dimensions [offsets[m], offsets[m + 1]) */
+  offsets: number[];
+  
+  /** Codebook per subspace (at most 256 centroids each) */
+  codebooks: Vector[][];
+  
+  /** Orthogonal rotation applied before splitting (OPQ only, dim × dim rows) */
+  rotation?: Vector[];
+}
+
+/**
+ * Trained scalar quantizer: a uniform grid of 2^bits levels per dimension
+ */
+export interface ScalarQuantizer {
+  /** Bits per component (4 or 8) */
+  bits: number;
+  
+  /** Lower end of each dimension's range */
+  min: number[];
+  
+  /** Upper end of each dimension's range */
+  max: number[];
+}
+
+/**
+ * Trained binary quantizer: each component keeps its sign and decodes to
+ * ±scale of its dimension
+ */
+export interface BinaryQuantizer {
+  /** Reconstruction magnitude per dimension (mean absolute training value) */
+  scales: number[];
+}
+
+/**
+ * Trained residual quantizer: a vector decodes to the sum of one centroid
+ * per stage
+ */
+export interface ResidualQuantizer {
+  /** Stage codebooks, each trained on the residuals of the stages before it */
+  codebooks: Vector[][];
+  
+  /** Mean squared reconstruction error on the training set after each stage */
+  distortion: number[];
+}
+
+/**
+ * Uniform scalar quantizer for per-vector norms
+ */
+export interface NormQuantizer {
+  /** Bits per norm code (1-16) */
+  bits: number;
+  
+  /** Smallest norm of the training sample */
+  min: number;
+  
+  /** Largest norm of the training sample */
+  max: number;
+}
+
+/**
+ * Trained compressor state: everything needed to encode new vectors
+ * consistently with the training sample (plain data, JSON-serializable)
+ */
+export interface CompressorModel {
+  /** Compression method the model was fitted for */
+  method: CompressionMethod;
+  
+  /** Input dimensionality */
+  dim: number;
+  
+  /** Whether inputs are normalized before encoding */
+  normalize: boolean;
+  
+  /** Grid step (for lattice methods) */
+  gridStep?: number;
+  
+  /** Boundary detection threshold (for boundary-aware method) */
+  boundaryMargin?: number;
+  
+  /** Number of refinement levels (for boundary-aware method) */
+  boundaryLevels?: number;
+  
+  /** Neighbor ranking metric (default: EUCLIDEAN) */
+  metric?: DistanceMetric;
+  
+  /** Centroid table (for K-means method) */
+  centroids?: Vector[];
+  
+  /** Projection matrix (for random projection method) */
+  projection?: RandomProjection;
+  
+  /** Subspace codebooks (for product quantization methods) */
+  productQuantizer?: ProductQuantizer;
+  
+  /** Per-dimension ranges (for scalar quantization) */
+  scalarQuantizer?: ScalarQuantizer;
+  
+  /** Per-dimension reconstruction scales (for binary quantization) */
+  binaryQuantizer?: BinaryQuantizer;
+  
+  /** Stage codebooks (for residual quantization) */
+  residualQuantizer?: ResidualQuantizer;
+  
+  /** Quantizer of the norms removed by normalization (when preserveNorms is enabled) */
+  normQuantizer?: NormQuantizer;
+}
+
+/**
+ * Typed array holding packed codes (narrowest type that fits the values)
+ */
+export type CodeArray =
+  | Uint8Array
+  | Uint16Array
+  | Uint32Array
+  | Int8Array
+  | Int16Array
+  | Int32Array
+  | Float32Array
+  | Float64Array;
+
+/**
+ * Header describing how packed codes are laid out
+ */
+export interface EncodedHeader {
+  /** Compression method the codes were produced by */
+  method: CompressionMethod;
+  
+  /** Number of encoded vectors */
+  count: number;
+  
+  /** Input dimensionality */
+  dim: number;
+  
+  /** Code elements per vector */
+  codeLength: number;
+  
+  /** Grid step (for lattice methods) */
+  gridStep?: number;
+  
+  /** Bits per code when several codes share a byte (4 for SQ4: codeLength counts bytes) */
+  bitsPerCode?: number;
+  
+  /**
+   * Bits per grid index at each refinement level when boundary-aware rows are
+   * bit-packed at their level's width (each row starts on a byte boundary)
+   */
+  levelBits?: number[];
+}
+
+/**
+ * Compact encoded representation of a vector set
+ */
+export interface EncodedVectors {
+  /** Layout header */
+  header: EncodedHeader;
+  
+  /** Row-major codes (count × codeLength, or variable-width rows with levelBits) */
+  codes: CodeArray;
+  
+  /** Per-vector refinement level (for boundary-aware method: step gridStep / 2^level) */
+  levels?: Uint8Array;
+  
+  /** Per-vector quantized norm (when norms are preserved) */
+  norms?: Uint8Array | Uint16Array;
 }
 
 /**
@@ -34,18 +295,86 @@ export interface CompressionOptions {
   /** Boundary detection threshold for boundary-aware method (default: 0.1) */
   boundaryMargin?: number;
   
-  /** Number of clusters for K-means (default: 256) */
+  /**
+   * Refinement levels for the boundary-aware method, 1 to 16: level l uses
+   * step gridStep / 2^l, and each vector takes the first level whose
+   * distortion is within boundaryMargin (or the last) (default: 2)
+   */
+  boundaryLevels?: number;
+  
+  /**
+   * Number of clusters for K-means, or per-subspace (PQ) / per-stage (residual)
+   * codebook size (max 256) (default: 256)
+   */
   clusterCount?: number;
   
+  /** Number of subspaces (byte codes per vector) for product quantization (default: 8) */
+  subQuantizers?: number;
+  
+  /** Rotation refinement iterations for optimized product quantization (default: 4) */
+  opqIterations?: number;
+  
+  /** Maximum number of stages (byte codes per vector) for residual quantization (default: 4) */
+  residualStages?: number;
+  
+  /**
+   * Residual quantization stops adding stages once the mean squared
+   * reconstruction error on the training set is at most this (default: 0,
+   * always train residualStages stages)
+   */
+  targetDistortion?: number;
+  
+  /** Bits per component for scalar quantization, 4 or 8 (default: 8) */
+  scalarBits?: number;
+  
+  /** Per-dimension range calibration for scalar quantization (default: MIN_MAX) */
+  scalarCalibration?: ScalarCalibration;
+  
+  /** Central fraction of each dimension covered by PERCENTILE calibration (default: 0.999) */
+  scalarPercentile?: number;
+  
   /** Target dimensionality for random projection (default: original / 2) */
   targetDim?: number;
   
+  /** Projection matrix family for random projection (default: GAUSSIAN) */
+  projectionType?: ProjectionType;
+  
   /** Neighbor count for quality metrics (default: 10) */
   k?: number;
   
+  /** Distance for neighbor ranking, recall/MRR, boundary detection and search (default: EUCLIDEAN) */
+  metric?: DistanceMetric;
+  
+  /** Query vectors sampled for quality metrics (default: 200) */
+  sampleSize?: number;
+  
+  /** Sampling strategy for metric queries (default: STRIDE) */
+  sampling?: SamplingStrategy;
+  
+  /** Bootstrap resamples for metric confidence intervals, 0 to disable (default: 0) */
+  bootstrapResamples?: number;
+  
+  /** Confidence level of bootstrap intervals (default: 0.95) */
+  confidenceLevel?: number;
+  
+  /** Report sliced Wasserstein and distance-histogram divergence in metrics (default: false) */
+  distributionMetrics?: boolean;
+  
+  /** Report persistent homology (H0/H1 bottleneck) metrics and use them in regime detection (default: false) */
+  topologyMetrics?: boolean;
+  
   /** Whether to normalize vectors before compression (default: true) */
   normalize?: boolean;
   
+  /**
+   * Keep each vector's norm in a separately quantized channel when
+   * normalizing, so reconstructions are restored to the original scale (default: false)
+   */
+  preserveNorms?: boolean;
+  
+  /** Bits per quantized norm, 1-16 (default: 8) */
+  normBits?: number;
+  
   /** Random seed for reproducibility (default: 42) */
   seed?: number;
   
@@ -56,6 +385,151 @@ export interface CompressionOptions {
   autoAdjustGridStep?: boolean;
 }
 
+/**
+ * Options for calculateMetrics()
+ */
+export interface MetricsOptions {
+  /** Distance used to rank neighbors (default: EUCLIDEAN) */
+  metric?: DistanceMetric;
+  
+  /** Query vectors to sample (default: 200) */
+  sampleSize?: number;
+  
+  /** Sampling strategy (default: STRIDE) */
+  sampling?: SamplingStrategy;
+  
+  /** Seed for random/stratified sampling and bootstrap (default: 42) */
+  seed?: number;
+  
+  /** Bootstrap resamples for confidence intervals, 0 to disable (default: 0) */
+  bootstrapResamples?: number;
+  
+  /** Confidence level of bootstrap intervals (default: 0.95) */
+  confidenceLevel?: number;
+  
+  /** Also compute distribution metrics (sliced Wasserstein, distance-histogram divergence) (default: false) */
+  distribution?: boolean;
+  
+  /** Also compute persistent homology metrics (H0/H1 bottleneck distances) (default: false) */
+  topology?: boolean;
+  
+  /** Collapse index weights (default: DEFAULT_COLLAPSE_WEIGHTS) */
+  weights?: Partial<CollapseWeights>;
+}
+
+/**
+ * Options for calculateDistributionMetrics()
+ */
+export interface DistributionOptions {
+  /** Distance for the pairwise-distance histograms (default: EUCLIDEAN) */
+  metric?: DistanceMetric;
+  
+  /** Vectors sampled for pairwise distances (default: 500) */
+  sampleSize?: number;
+  
+  /** Random projection directions for sliced Wasserstein (default: 64) */
+  projections?: number;
+  
+  /** Histogram bins for pairwise distances (default: 32) */
+  bins?: number;
+  
+  /** Seed for projection directions (default: 42) */
+  seed?: number;
+}
+
+/**
+ * Global geometry drift between original and compressed point clouds
+ */
+export interface DistributionMetrics {
+  /**
+   * Sliced 2-Wasserstein distance between the point clouds
+   * (undefined when the compressed space has different dimensions)
+   */
+  slicedWasserstein?: number;
+  
+  /** KL divergence (bits) of the compressed pairwise-distance histogram from the original */
+  distanceKL: number;
+  
+  /** Jensen-Shannon divergence (bits, 0-1) between the pairwise-distance histograms */
+  distanceJS: number;
+}
+
+/**
+ * Options for calculateTopologyMetrics()
+ */
+export interface TopologyOptions {
+  /** Distance for the Rips filtration; INNER_PRODUCT uses EUCLIDEAN (default: EUCLIDEAN) */
+  metric?: DistanceMetric;
+  
+  /** Vectors sampled for the Rips complex (default: 64) */
+  sampleSize?: number;
+}
+
+/**
+ * Birth and death filtration values of one homology class
+ */
+export interface PersistencePair {
+  birth: number;
+  
+  /** Infinity for classes that never die */
+  death: number;
+}
+
+/**
+ * Persistence diagrams of a point cloud by homology dimension
+ */
+export interface PersistenceDiagram {
+  /** Connected components */
+  h0: PersistencePair[];
+  
+  /** Loops */
+  h1: PersistencePair[];
+}
+
+/**
+ * Topological drift between original and compressed point clouds
+ */
+export interface TopologyMetrics {
+  /** Bottleneck distance between the H0 diagrams */
+  bottleneckH0: number;
+  
+  /** Bottleneck distance between the H1 diagrams */
+  bottleneckH1: number;
+  
+  /** Larger bottleneck distance relative to the original sample diameter */
+  topologicalDistortion: number;
+  
+  /** Diagrams of the original sample */
+  original: PersistenceDiagram;
+  
+  /** Diagrams of the compressed sample */
+  compressed: PersistenceDiagram;
+}
+
+/**
+ * Two-sided confidence interval
+ */
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Bootstrap (percentile) confidence intervals over the sampled queries
+ */
+export interface MetricConfidence {
+  /** Confidence level (e.g., 0.95) */
+  level: number;
+  
+  /** Number of bootstrap resamples */
+  resamples: number;
+  
+  recall5: ConfidenceInterval;
+  recall10: ConfidenceInterval;
+  mrr: ConfidenceInterval;
+  collapseIndex: ConfidenceInterval;
+}
+
 /**
  * Quality metrics for compressed vectors
  */
@@ -66,7 +540,7 @@ export interface CompressionMetrics {
   /** Recall@10 - Main quality metric */
   recall10: number;
   
-  /** Mean Reciprocal Rank */
+  /** Mean Reciprocal Rank of the true k-neighbors in the compressed ranking (1 = perfect) */
   mrr: number;
   
   /** Mean Squared Error - Global distortion */
@@ -75,16 +549,19 @@ export interface CompressionMetrics {
   /** Local distortion - Avg distance to nearest neighbor */
   localDistortion: number;
   
-  /** Trustworthiness - 1 - (false neighbors / k) */
+  /** Trustworthiness (Venna & Kaski) - penalizes compressed neighbors by their true rank */
   trustworthiness: number;
   
+  /** Continuity (Venna & Kaski) - penalizes lost true neighbors by their compressed rank */
+  continuity?: number;
+  
   /** Kendall's Tau - Rank correlation */
   kendallTau: number;
   
   /** Estimated compression ratio */
   compressionRatio: number;
   
-  /** Precision@10 - False neighbor detection */
+  /** Precision@10 - False neighbor detection (counts every vector tied with the 10th neighbor) */
   precision10?: number;
   
   /** k-variance - Topology sensitivity across scales */
@@ -101,6 +578,111 @@ export interface CompressionMetrics {
   
   /** Collapse index - Combined collapse score (0-1) */
   collapseIndex?: number;
+  
+  /** Sliced 2-Wasserstein distance between point clouds (when distribution metrics are enabled) */
+  slicedWasserstein?: number;
+  
+  /** KL divergence of pairwise-distance histograms, bits (when distribution metrics are enabled) */
+  distanceKL?: number;
+  
+  /** JS divergence of pairwise-distance histograms, bits (when distribution metrics are enabled) */
+  distanceJS?: number;
+  
+  /** Bottleneck distance between H0 persistence diagrams (when topology metrics are enabled) */
+  bottleneckH0?: number;
+  
+  /** Bottleneck distance between H1 persistence diagrams (when topology metrics are enabled) */
+  bottleneckH1?: number;
+  
+  /** Larger bottleneck distance relative to the original sample diameter (when topology metrics are enabled) */
+  topologicalDistortion?: number;
+  
+  /** Number of query vectors the neighbor metrics were measured on */
+  sampleSize?: number;
+  
+  /** Bootstrap confidence intervals (when bootstrapResamples > 0) */
+  confidence?: MetricConfidence;
+}
+
+/**
+ * Weights of the collapse index terms
+ */
+export interface CollapseWeights {
+  /** Weight of 1 − recall@5 */
+  recall5: number;
+  
+  /** Weight of 1 − precision@10 */
+  precision10: number;
+  
+  /** Weight of the k-variance term (min(1, 20 × kVariance)) */
+  kVariance: number;
+  
+  /** Weight of 1 − centroid survival ratio */
+  centroidSurvival: number;
+}
+
+/**
+ * Lower bounds of the regime score for each non-stable regime
+ */
+export interface RegimeThresholds {
+  /** Score at which PRE_COLLAPSE starts (default: 0.15) */
+  preCollapse: number;
+  
+  /** Score at which COLLAPSE starts (default: 0.35) */
+  collapse: number;
+  
+  /** Score at which POST_COLLAPSE starts (default: 0.60) */
+  postCollapse: number;
+}
+
+/**
+ * Custom regime rule: return a regime to override the threshold decision,
+ * or undefined to keep it
+ */
+export type RegimeRule = (metrics: CompressionMetrics, regime: Regime) => Regime | undefined;
+
+/**
+ * How metrics are turned into a regime
+ */
+export interface RegimePolicy {
+  /** Collapse index weights (default: DEFAULT_COLLAPSE_WEIGHTS) */
+  weights?: Partial<CollapseWeights>;
+  
+  /** Regime score thresholds (default: DEFAULT_REGIME_THRESHOLDS) */
+  thresholds?: Partial<RegimeThresholds>;
+  
+  /** Regime score per unit of topological distortion (default: 2) */
+  topologyScale?: number;
+  
+  /** Rules applied in order after thresholding; each sees the previous result */
+  rules?: RegimeRule[];
+}
+
+/**
+ * Metrics of one compression labeled as acceptable or not
+ */
+export interface LabeledMetrics {
+  metrics: CompressionMetrics;
+  
+  /** Whether the compression was good enough to deploy */
+  acceptable: boolean;
+}
+
+/**
+ * Result of calibrateRegimePolicy()
+ */
+export interface RegimeCalibration {
+  /** Policy with fitted thresholds */
+  policy: RegimePolicy;
+  
+  /** Fraction of examples classified correctly (acceptable = below COLLAPSE) */
+  accuracy: number;
+  
+  /** Unacceptable examples classified as acceptable */
+  falseAccepts: number;
+  
+  /** Acceptable examples classified as unacceptable */
+  falseRejects: number;
 }
 
 /**
@@ -142,6 +724,30 @@ export interface CompressionAnalysisResult {
   /** Centroids (for K-means method) */
   centroids?: Vector[];
   
+  /** Per-vector centroid indices (for K-means method) */
+  codes?: number[];
+  
+  /** Projection matrix (for random projection method) */
+  projection?: RandomProjection;
+  
+  /** Trained subspace codebooks (for product quantization) */
+  productQuantizer?: ProductQuantizer;
+  
+  /** Per-vector subspace codes, one byte per subspace (for product quantization) */
+  pqCodes?: Uint8Array[];
+  
+  /** Model fitted on the input (reuse with encode/decode for new vectors) */
+  model?: CompressorModel;
+  
+  /** Packed codes (the actual compressed representation) */
+  encoded?: EncodedVectors;
+  
+  /** Auto-tuning outcome (when autoAdjustGridStep is enabled) */
+  autoTune?: AutoTuneReport;
+  
+  /** Options the model was fitted with (including an auto-tuned grid step) */
+  options?: Required<CompressionOptions>;
+  
   /** Grid step used (for lattice methods) */
   gridStep?: number;
   
@@ -156,9 +762,232 @@ export interface CompressionResult {
   /** Compressed vectors */
   compressed: Vector[];
   
-  /** Estimated compression ratio */
+  /** Compression ratio (float32 input bytes / packed code + model bytes) */
   compressionRatio: number;
   
+  /** Centroid table (for K-means method) */
+  centroids?: Vector[];
+  
+  /** Per-vector centroid indices (for K-means method) */
+  codes?: number[];
+  
+  /** Projection matrix (for random projection method) */
+  projection?: RandomProjection;
+  
+  /** Trained subspace codebooks (for product quantization) */
+  productQuantizer?: ProductQuantizer;
+  
+  /** Per-vector subspace codes, one byte per subspace (for product quantization) */
+  pqCodes?: Uint8Array[];
+  
+  /** Model fitted on the input (reuse with encode/decode for new vectors) */
+  model?: CompressorModel;
+  
+  /** Packed codes (the actual compressed representation) */
+  encoded?: EncodedVectors;
+  
+  /** Auto-tuning outcome (when autoAdjustGridStep is enabled) */
+  autoTune?: AutoTuneReport;
+  
+  /** Options the model was fitted with (including an auto-tuned grid step) */
+  options?: Required<CompressionOptions>;
+  
   /** Optional metadata */
   metadata?: Record<string, any>;
 }
+
+/**
+ * One evaluated setting during grid step auto-tuning
+ */
+export interface AutoTuneStep {
+  /** Grid step evaluated */
+  gridStep: number;
+  
+  /** Boundary margin evaluated (boundary-aware method) */
+  boundaryMargin?: number;
+  
+  /** Recall@10 measured on the tuning sample */
+  recall10: number;
+  
+  /** Compression ratio measured on the tuning sample */
+  compressionRatio: number;
+}
+
+/**
+ * Outcome of grid step auto-tuning (autoAdjustGridStep)
+ */
+export interface AutoTuneReport {
+  /** Chosen grid step */
+  gridStep: number;
+  
+  /** Chosen boundary margin (boundary-aware method) */
+  boundaryMargin?: number;
+  
+  /** Recall target that was searched for */
+  targetRecall: number;
+  
+  /** Recall@10 of the chosen setting on the tuning sample */
+  achievedRecall: number;
+  
+  /** Whether the chosen setting meets targetRecall */
+  targetMet: boolean;
+  
+  /** Number of vectors the search was run on */
+  sampleSize: number;
+  
+  /** Every setting evaluated, in search order */
+  trace: AutoTuneStep[];
+}
+
+/**
+ * One setting evaluated by the compression-ratio solver
+ */
+export interface SolverCandidate {
+  /** Method and parameters of the setting */
+  options: CompressionOptions;
+  
+  /** Compression ratio in real bytes, projected to the full dataset size */
+  compressionRatio: number;
+  
+  /** Recall@10 measured on the solver sample */
+  recall10: number;
+}
+
+/**
+ * Result of solving for a target compression ratio
+ */
+export interface RatioSolution {
+  /** Requested compression ratio */
+  targetRatio: number;
+  
+  /** Best setting: highest recall among those meeting the target, else the highest ratio */
+  best: SolverCandidate;
+  
+  /** Whether the best setting meets targetRatio */
+  targetMet: boolean;
+  
+  /** Number of vectors settings were evaluated on */
+  sampleSize: number;
+  
+  /** Every setting evaluated, sorted by compression ratio (recall/ratio trade-off) */
+  explored: SolverCandidate[];
+}
+
+/**
+ * Parameter values to sweep (unset entries use each method's defaults)
+ */
+export interface ParameterGrid {
+  /** Grid steps for lattice methods */
+  gridStep?: number[];
+  
+  /** Cluster counts for K-means (and codebook sizes for PQ methods) */
+  clusterCount?: number[];
+  
+  /** Target dimensionalities for random projection */
+  targetDim?: number[];
+  
+  /** Subspace counts for PQ methods */
+  subQuantizers?: number[];
+  
+  /** Bits per component for scalar quantization */
+  scalarBits?: number[];
+  
+  /** Stage counts for residual quantization */
+  residualStages?: number[];
+}
+
+/**
+ * One evaluated operating point of a parameter sweep
+ */
+export interface SweepPoint {
+  /** Method and parameters of the point */
+  options: CompressionOptions;
+  
+  /** Compression ratio in real bytes, projected to the full dataset size */
+  compressionRatio: number;
+  
+  /** Full quality metrics on the sweep sample */
+  metrics: CompressionMetrics;
+  
+  /** Regime classification of the point */
+  regime: Regime;
+}
+
+/**
+ * Result of a Pareto sweep across methods and parameters
+ */
+export interface SweepResult {
+  /** Every evaluated point, sorted by compression ratio */
+  points: SweepPoint[];
+  
+  /** Non-dominated points for compression ratio vs. recall@10 (higher is better) */
+  recallFrontier: SweepPoint[];
+  
+  /** Non-dominated points for compression ratio vs. collapse index (lower is better) */
+  collapseFrontier: SweepPoint[];
+  
+  /** Number of vectors points were evaluated on */
+  sampleSize: number;
+}
+
+/**
+ * Options for the worker-thread parallel mode (Node only)
+ */
+export interface ParallelOptions {
+  /** Worker threads to shard work across (default: available CPUs) */
+  workers?: number;
+  
+  /**
+   * Worker entry point (default: the compiled worker.js shipped with the
+   * library; set it when bundling, which moves the library away from it)
+   */
+  workerScript?: string | URL;
+}
+
+/**
+ * Nearest neighbors returned by a compressed index
+ */
+export interface SearchResult {
+  /** Vector ids (positions in the encoded set), nearest first */
+  ids: number[];
+  
+  /** Estimated distances to the query, ascending */
+  distances: number[];
+}
+
+/**
+ * Options for CompressedIndex.search
+ */
+export interface SearchOptions {
+  /**
+   * Candidates taken from the compressed ranking and re-ranked by exact
+   * distances (default: k, no rescoring)
+   */
+  rescore?: number;
+  
+  /**
+   * Vectors to re-rank candidates with, indexed by id, in the original input
+   * space (e.g. the originals or a higher-precision copy; default: decoded codes)
+   */
+  rescoreVectors?: Vector[];
+}
+
+/**
+ * Compressed dataset restored by deserialize()
+ */
+export interface DeserializedResult extends CompressionResult {
+  /** Quality metrics (if they were serialized) */
+  metrics?: CompressionMetrics;
+  
+  /** Regime classification (if it was serialized) */
+  regime?: Regime;
+  
+  /** Grid step used (for lattice methods) */
+  gridStep?: number;
+  
+  /** Warnings or recommendations */
+  warnings?: string[];
+  
+  /** Library version that wrote the data */
+  version: string;
+}
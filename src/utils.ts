@@ -2,7 +2,8 @@
  * Utility functions for vector operations
  */
 
-import { Vector } from './types';
+import { Vector, DistanceMetric } from './types';
+import { topK } from './knn';
 
 /**
  * Seeded Random Number Generator for reproducible results
@@ -27,6 +28,14 @@ export class SeededRNG {
   range(min: number, max: number): number {
     return min + this.next() * (max - min);
   }
+
+  /** Generate standard normal sample (Box-Muller transform) */
+  gaussian(): number {
+    let u = 0;
+    while (u === 0) u = this.next();
+    const v = this.next();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
 }
 
 /**
@@ -56,65 +65,172 @@ export function euclideanDistance(a: Vector, b: Vector): number {
   return Math.sqrt(sum);
 }
 
+/**
+ * Inner product of two vectors
+ */
+export function dotProduct(a: Vector, b: Vector): number {
+  let sum = 0;
+  const len = Math.min(a.length, b.length);
+  for (let i = 0; i < len; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Distance between two vectors under a metric (smaller is nearer)
+ * @param a - First vector
+ * @param b - Second vector
+ * @param metric - Distance metric (default: EUCLIDEAN)
+ * @returns ‖a − b‖, 1 − cos(a, b), −a·b or Σ|a − b|
+ * @throws If the vectors differ in length
+ */
+export function distance(
+  a: Vector,
+  b: Vector,
+  metric: DistanceMetric = DistanceMetric.EUCLIDEAN
+): number {
+  if (a.length !== b.length) {
+    throw new Error(`Cannot compare vectors of length ${a.length} and ${b.length}`);
+  }
+
+  switch (metric) {
+    case DistanceMetric.COSINE: {
+      const norms = Math.sqrt(dotProduct(a, a) * dotProduct(b, b));
+      return norms > 0 ? 1 - dotProduct(a, b) / norms : 1;
+    }
+
+    case DistanceMetric.INNER_PRODUCT:
+      return -dotProduct(a, b);
+
+    case DistanceMetric.L1: {
+      let sum = 0;
+      for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+      return sum;
+    }
+
+    default:
+      return euclideanDistance(a, b);
+  }
+}
+
 /**
  * Find K nearest neighbors
+ *
+ * For repeated queries against the same vectors, use KNNIndex instead.
  * @param query - Query vector
  * @param haystack - Array of vectors to search
  * @param k - Number of neighbors to find
+ * @param metric - Distance metric (default: EUCLIDEAN)
  * @returns Indices of k nearest neighbors
  */
-export function findKNN(query: Vector, haystack: Vector[], k: number): number[] {
+export function findKNN(
+  query: Vector,
+  haystack: Vector[],
+  k: number,
+  metric: DistanceMetric = DistanceMetric.EUCLIDEAN
+): number[] {
   if (!query || !haystack) return [];
   
-  const distances = new Array(haystack.length);
+  const distances = new Float64Array(haystack.length);
   for (let i = 0; i < haystack.length; i++) {
-    distances[i] = { idx: i, dist: euclideanDistance(query, haystack[i]) };
+    distances[i] = distance(query, haystack[i], metric);
   }
-  distances.sort((a, b) => a.dist - b.dist);
-  
-  const res = new Array(Math.min(k, distances.length));
-  for (let i = 0; i < res.length; i++) res[i] = distances[i].idx;
-  return res;
+  return topK(distances, k);
 }
 
 /**
- * Kendall's Tau rank correlation (sampled for performance)
+ * Kendall's Tau rank correlation of pairwise distances
+ *
+ * Compares the distance of every pair of the given vectors in both spaces.
+ * Tied pairs are excluded: (concordant − discordant) / (concordant + discordant).
+ * @param orig - Original vectors
+ * @param comp - Compressed vectors
+ * @param indices - Vectors to compare (e.g. the metric sample)
+ * @param metric - Distance metric (default: EUCLIDEAN)
  */
-export function calculateKendallTau(orig: Vector[], comp: Vector[], sampleSize = 50): number {
-  const n = Math.min(orig.length, sampleSize);
-  let concordant = 0;
-  let discordant = 0;
+export function calculateKendallTau(
+  orig: Vector[],
+  comp: Vector[],
+  indices: number[],
+  metric: DistanceMetric = DistanceMetric.EUCLIDEAN
+): number {
+  const origDist: number[] = [];
+  const compDist: number[] = [];
 
-  const pairs: {orig: number, comp: number}[] = [];
-  
-  for (let i = 0; i < n; i++) {
-    for (let j = i + 1; j < n; j++) {
-      pairs.push({
-        orig: euclideanDistance(orig[i], orig[j]),
-        comp: euclideanDistance(comp[i], comp[j])
-      });
+  for (let a = 0; a < indices.length; a++) {
+    for (let b = a + 1; b < indices.length; b++) {
+      const i = indices[a];
+      const j = indices[b];
+      origDist.push(distance(orig[i], orig[j], metric));
+      compDist.push(distance(comp[i], comp[j], metric));
     }
   }
 
-  const len = pairs.length;
-  for (let i = 0; i < len; i++) {
-    for (let j = i + 1; j < len; j++) {
-      const p1 = pairs[i];
-      const p2 = pairs[j];
-      
-      const oDiff = p1.orig - p2.orig;
-      const cDiff = p1.comp - p2.comp;
-
-      if (oDiff * cDiff > 0) {
-        concordant++;
-      } else if (oDiff * cDiff < 0) {
-        discordant++;
+  return kendallTau(origDist, compDist);
+}
+
+/**
+ * Kendall's Tau of two paired samples in O(n log n) (Knight's algorithm):
+ * sort by x (then y), count the swaps a stable merge sort by y needs
+ * (discordant pairs), and correct for ties
+ */
+function kendallTau(x: number[], y: number[]): number {
+  const n = x.length;
+  const order = Array.from({ length: n }, (_, i) => i);
+  order.sort((a, b) => x[a] - x[b] || y[a] - y[b]);
+
+  // Pairs tied in x, and tied in both
+  let tiesX = 0;
+  let tiesXY = 0;
+  for (let i = 0; i < n; ) {
+    let j = i + 1;
+    while (j < n && x[order[j]] === x[order[i]]) j++;
+    tiesX += ((j - i) * (j - i - 1)) / 2;
+    for (let a = i; a < j; ) {
+      let b = a + 1;
+      while (b < j && y[order[b]] === y[order[a]]) b++;
+      tiesXY += ((b - a) * (b - a - 1)) / 2;
+      a = b;
+    }
+    i = j;
+  }
+
+  // Discordant pairs = swaps of a stable bottom-up merge sort on y
+  let values = order.map(i => y[i]);
+  let buffer = new Array<number>(n);
+  let swaps = 0;
+  for (let width = 1; width < n; width *= 2) {
+    for (let lo = 0; lo < n; lo += 2 * width) {
+      const mid = Math.min(lo + width, n);
+      const hi = Math.min(lo + 2 * width, n);
+      let i = lo;
+      let j = mid;
+      let k = lo;
+      while (i < mid && j < hi) {
+        if (values[i] <= values[j]) {
+          buffer[k++] = values[i++];
+        } else {
+          swaps += mid - i;
+          buffer[k++] = values[j++];
+        }
       }
+      while (i < mid) buffer[k++] = values[i++];
+      while (j < hi) buffer[k++] = values[j++];
     }
+    [values, buffer] = [buffer, values];
   }
-  
-  if (concordant + discordant === 0) return 0;
-  return (concordant - discordant) / (concordant + discordant);
+
+  // Pairs tied in y
+  let tiesY = 0;
+  for (let i = 0; i < n; ) {
+    let j = i + 1;
+    while (j < n && values[j] === values[i]) j++;
+    tiesY += ((j - i) * (j - i - 1)) / 2;
+    i = j;
+  }
+
+  const untied = (n * (n - 1)) / 2 - tiesX - tiesY + tiesXY;
+  if (untied <= 0) return 0;
+  return (untied - 2 * swaps) / untied;
 }
 
 /**
@@ -122,11 +238,44 @@ export function calculateKendallTau(orig: Vector[], comp: Vector[], sampleSize =
  * Rounds to prevent floating point precision issues
  */
 export function countUniqueVectors(vectors: Vector[]): number {
-  const seen = new Set<string>();
+  // Round to 6 decimal places to avoid floating point issues
+  const round = (val: number): number => Math.round(val * 1000000);
+  const sameRounded = (a: Vector, b: Vector): boolean => {
+    for (let d = 0; d < a.length; d++) {
+      if (round(a[d]) !== round(b[d])) return false;
+    }
+    return true;
+  };
+
+  // Bucket by a hash of the rounded components instead of building a
+  // string key per vector; only hash collisions are compared in full
+  const buckets = new Map<number, Vector[]>();
+  let unique = 0;
   for (const v of vectors) {
-    // Round to 6 decimal places to avoid floating point issues
-    const rounded = v.map(val => Math.round(val * 1000000) / 1000000);
-    seen.add(rounded.join(','));
+    let hash = 0x811c9dc5;
+    for (let d = 0; d < v.length; d++) {
+      const r = round(v[d]);
+      hash = Math.imul(hash ^ (r | 0), 0x01000193);
+      hash = Math.imul(hash ^ (Math.floor(r / 0x100000000) | 0), 0x01000193);
+    }
+    const bucket = buckets.get(hash);
+    if (!bucket) {
+      buckets.set(hash, [v]);
+      unique++;
+    } else if (!bucket.some(u => sameRounded(u, v))) {
+      bucket.push(v);
+      unique++;
+    }
   }
-  return Math.max(1, seen.size); // At least 1
+  return Math.max(1, unique); // At least 1
+}
+
+/**
+ * Linearly interpolated quantile of sorted values
+ */
+export function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
 }
@@ -0,0 +1,5 @@
+/**
+ * Library version
+ */
+
+export const VERSION = '0.1.0';
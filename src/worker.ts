@@ -0,0 +1,33 @@
+/**
+ * Worker thread entry point for parallel.ts
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { encodeVectors } from './model';
+import { measureQueries } from './metrics';
+import { WorkerTask, fromSharedVectors } from './parallel';
+
+const task = workerData as WorkerTask;
+
+switch (task.task) {
+  case 'encode':
+    parentPort!.postMessage(
+      encodeVectors(task.model, fromSharedVectors(task.vectors, task.start, task.end))
+    );
+    break;
+
+  case 'metrics':
+    parentPort!.postMessage(
+      measureQueries(
+        fromSharedVectors(task.original),
+        fromSharedVectors(task.compressed),
+        task.queries,
+        task.metric,
+        task.k
+      )
+    );
+    break;
+
+  default:
+    throw new Error(`Unknown worker task: ${(task as { task: string }).task}`);
+}
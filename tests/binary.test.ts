@@ -0,0 +1,177 @@
+/**
+ * Tests for binary quantization and Hamming search
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  VectorCompressor,
+  CompressionMethod,
+  CompressedIndex,
+  DistanceMetric,
+  distance,
+  normalizeVectors,
+  detectRegime,
+  topK,
+  trainBinaryQuantizer,
+  encodeBinaryQuantizer,
+  decodeBinaryQuantizer,
+  hammingDistance,
+  serialize,
+  deserialize,
+} from '../src';
+
+function generateVectors(count: number, dims: number): number[][] {
+  const vectors: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const vec: number[] = [];
+    for (let j = 0; j < dims; j++) {
+      vec.push(Math.random() * 2 - 1);
+    }
+    vectors.push(vec);
+  }
+  return vectors;
+}
+
+describe('Binary Quantization', () => {
+  const vectors = generateVectors(400, 64);
+  const binary = { method: CompressionMethod.BINARY_QUANTIZATION };
+
+  it('should set one bit per positive component', () => {
+    const v = new Array(33).fill(-1);
+    v[0] = 1;
+    v[5] = 0.5;
+    v[32] = 2;
+    v[7] = 0; // zero is not positive
+    const [words] = encodeBinaryQuantizer([v]);
+
+    expect(words).toBeInstanceOf(Uint32Array);
+    expect(Array.from(words)).toEqual([(1 << 0) | (1 << 5), 1]);
+  });
+
+  it('should set the sign bit of the last word without going negative', () => {
+    const v = new Array(32).fill(-1);
+    v[31] = 1;
+    expect(encodeBinaryQuantizer([v])[0][0]).toBe(2 ** 31);
+  });
+
+  it('should decode signs at the mean absolute value of each dimension', () => {
+    const data = [
+      [1, -2],
+      [-3, 4],
+    ];
+    const bq = trainBinaryQuantizer(data);
+
+    expect(bq.scales).toEqual([2, 3]);
+    expect(decodeBinaryQuantizer(encodeBinaryQuantizer(data), bq)).toEqual([
+      [2, -3],
+      [-2, 3],
+    ]);
+  });
+
+  it('should count differing bits', () => {
+    const [a, b] = encodeBinaryQuantizer(generateVectors(2, 100));
+    let expected = 0;
+    for (let d = 0; d < 100; d++) {
+      if (((a[d >>> 5] >>> (d & 31)) & 1) !== ((b[d >>> 5] >>> (d & 31)) & 1)) expected++;
+    }
+
+    expect(hammingDistance(a, b)).toBe(expected);
+    expect(hammingDistance(a, a)).toBe(0);
+    expect(hammingDistance([0xffffffff], [0])).toBe(32);
+  });
+
+  it('should pack 32 components per word for close to 32x compression', () => {
+    const wide = generateVectors(400, 256);
+    const result = new VectorCompressor(binary).compress(wide);
+    const { header, codes } = result.encoded!;
+
+    expect(codes).toBeInstanceOf(Uint32Array);
+    expect(header.codeLength).toBe(8);
+    // Only the float32 scales (one per dimension) are shipped besides the codes
+    expect(result.compressionRatio).toBeCloseTo((400 * 256) / (400 * 8 + 256), 10);
+    expect(result.compressionRatio).toBeGreaterThan(29);
+  });
+
+  it('should rank stored vectors by Hamming distance', () => {
+    const result = new VectorCompressor(binary).compress(vectors);
+    const index = CompressedIndex.fromResult(result);
+    const query = generateVectors(1, 64)[0];
+    const { ids, distances } = index.search(query, 10);
+
+    const [queryBits] = encodeBinaryQuantizer([query]);
+    const stored = encodeBinaryQuantizer(vectors);
+    const all = stored.map(bits => hammingDistance(queryBits, bits));
+    const best = [...all].sort((a, b) => a - b).slice(0, 10);
+
+    expect(distances).toEqual(best);
+    ids.forEach((id, r) => expect(distances[r]).toBe(all[id]));
+  });
+
+  it('should improve recall by rescoring Hamming candidates with the originals', () => {
+    const result = new VectorCompressor(binary).compress(vectors);
+    const index = CompressedIndex.fromResult(result);
+    const reference = normalizeVectors(vectors);
+
+    let hammingHits = 0;
+    let rescoredHits = 0;
+    for (const query of generateVectors(20, 64)) {
+      const q = normalizeVectors([query])[0];
+      const exact = topK(reference.map(v => distance(q, v)), 10);
+      const hamming = index.search(query, 10).ids;
+      const rescored = index.search(query, 10, { rescore: 100, rescoreVectors: vectors });
+
+      rescored.ids.forEach((id, r) => {
+        expect(rescored.distances[r]).toBeCloseTo(distance(q, reference[id]), 10);
+      });
+      hammingHits += hamming.filter(id => exact.includes(id)).length;
+      rescoredHits += rescored.ids.filter(id => exact.includes(id)).length;
+
+      // Rescoring every vector is an exact search
+      const full = index.search(query, 10, { rescore: vectors.length, rescoreVectors: vectors });
+      expect(full.ids).toEqual(exact);
+    }
+
+    expect(rescoredHits).toBeGreaterThan(hammingHits);
+  });
+
+  it('should rescore with decoded vectors by default', () => {
+    const result = new VectorCompressor({ ...binary, metric: DistanceMetric.COSINE })
+      .compress(vectors);
+    const index = CompressedIndex.fromResult(result);
+    const query = generateVectors(1, 64)[0];
+    const q = normalizeVectors([query])[0];
+    const { ids, distances } = index.search(query, 5, { rescore: 50 });
+
+    expect(ids).toHaveLength(5);
+    ids.forEach((id, r) => {
+      const exact = distance(q, result.compressed[id], DistanceMetric.COSINE);
+      expect(distances[r]).toBeCloseTo(exact, 10);
+    });
+    expect(distances).toEqual([...distances].sort((a, b) => a - b));
+  });
+
+  it('should reject rescoring vectors that do not match the index', () => {
+    const index = CompressedIndex.fromResult(new VectorCompressor(binary).compress(vectors));
+    expect(() =>
+      index.search(vectors[0], 5, { rescore: 20, rescoreVectors: vectors.slice(1) })
+    ).toThrow(/Rescoring/);
+  });
+
+  it('should report recall and regime through the metrics pipeline', () => {
+    const analysis = new VectorCompressor(binary).compressWithAnalysis(vectors);
+
+    expect(analysis.metrics.recall10).toBeGreaterThan(0);
+    expect(analysis.metrics.recall10).toBeLessThan(1);
+    expect(analysis.regime).toBe(detectRegime(analysis.metrics));
+  });
+
+  it('should serialize bitsets and scales', () => {
+    const result = new VectorCompressor({ ...binary, preserveNorms: true }).compress(vectors);
+    const restored = deserialize(serialize(result));
+
+    expect(restored.model.binaryQuantizer).toEqual(result.model!.binaryQuantizer);
+    expect(restored.encoded.codes).toBeInstanceOf(Uint32Array);
+    expect(restored.encoded.codes).toEqual(result.encoded!.codes);
+    expect(restored.compressed).toEqual(result.compressed);
+  });
+});
@@ -3,7 +3,20 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { VectorCompressor, CompressionMethod, Regime } from '../src';
+import {
+  VectorCompressor,
+  CompressionMethod,
+  Regime,
+  ProjectionType,
+  projectVectors,
+  normalizeVectors,
+  unpackCodes,
+  serialize,
+  deserialize,
+  CompressedIndex,
+  euclideanDistance,
+  trainKMeans,
+} from '../src';
 
 describe('Vector Compression', () => {
   // Generate test data
@@ -55,6 +68,20 @@ describe('Vector Compression', () => {
       // Should have fewer unique vectors after compression (or at least stay same)
       expect(result.compressionRatio).toBeGreaterThanOrEqual(1.0);
     });
+
+    it('should store grid indices as bytes', () => {
+      const compressor = new VectorCompressor({
+        method: CompressionMethod.LATTICE,
+        gridStep: 0.1,
+      });
+
+      const vectors = generateTestVectors(100, 8);
+      const result = compressor.compress(vectors);
+
+      expect(result.encoded!.codes).toBeInstanceOf(Int8Array);
+      expect(result.encoded!.header.gridStep).toBe(0.1);
+      expect(result.compressionRatio).toBe(4);
+    });
   });
 
   describe('Boundary-Aware Quantization', () => {
@@ -100,6 +127,436 @@ describe('Vector Compression', () => {
         latticeResult.metrics.recall10 * 0.95
       );
     });
+
+    it('should stay within two levels by default', () => {
+      const result = new VectorCompressor({ gridStep: 0.5, boundaryMargin: 0 })
+        .compress(generateTestVectors(50, 8));
+
+      expect(result.model!.boundaryLevels).toBe(2);
+      expect(Math.max(...result.encoded!.levels!)).toBe(1);
+    });
+
+    it('should halve the step until the distortion is within the margin', () => {
+      // Few dimensions spread the coarse-grid distortion over several levels
+      const boundaryMargin = 0.02;
+      const vectors = generateTestVectors(200, 2);
+      const result = new VectorCompressor({
+        method: CompressionMethod.BOUNDARY_AWARE,
+        gridStep: 0.5,
+        boundaryMargin,
+        boundaryLevels: 6,
+        normalize: false,
+      }).compress(vectors);
+      const levels = unpackCodes(result.encoded!).map(c => c[0]);
+      const errorAt = (v: number[], level: number) => {
+        const step = 0.5 / 2 ** level;
+        return euclideanDistance(v, v.map(x => Math.round(x / step) * step));
+      };
+
+      expect(new Set(levels).size).toBeGreaterThan(2);
+      vectors.forEach((v, i) => {
+        const level = levels[i];
+        // The first level within the margin, or the deepest one
+        if (level < 5) expect(errorAt(v, level)).toBeLessThanOrEqual(boundaryMargin);
+        for (let l = 0; l < level; l++) expect(errorAt(v, l)).toBeGreaterThan(boundaryMargin);
+        expect(euclideanDistance(v, result.compressed[i])).toBeCloseTo(errorAt(v, level), 10);
+      });
+    });
+
+    it('should pack each level at its own bit width', () => {
+      const vectors = generateTestVectors(200, 8);
+      const result = new VectorCompressor({
+        method: CompressionMethod.BOUNDARY_AWARE,
+        gridStep: 0.5,
+        boundaryMargin: 0.02,
+        boundaryLevels: 6,
+      }).compress(vectors);
+      const { header, codes, levels } = result.encoded!;
+      const levelBits = header.levelBits!;
+
+      // Finer levels need wider grid indices
+      expect(levelBits).toHaveLength(6);
+      expect(levelBits[5]).toBeGreaterThan(levelBits[0]);
+
+      const rowBytes = (level: number) => Math.ceil((8 * levelBits[level]) / 8);
+      const expected = Array.from(levels!).reduce((sum, l) => sum + rowBytes(l), 0);
+      expect(codes.byteLength).toBe(expected);
+      expect(result.compressionRatio).toBeCloseTo((200 * 8 * 4) / (expected + 200), 10);
+
+      // Mixed widths cost less than storing every row at the widest level
+      const uniform = 200 * rowBytes(5) + 200;
+      expect(result.compressionRatio).toBeGreaterThan((200 * 8 * 4) / uniform);
+
+      // Signed indices survive the round trip
+      const compressor = new VectorCompressor({
+        method: CompressionMethod.BOUNDARY_AWARE,
+        boundaryLevels: 6,
+      });
+      expect(compressor.decode(result.model!, result.encoded!)).toEqual(result.compressed);
+    });
+
+    it('should search and serialize multi-level codes', () => {
+      const vectors = generateTestVectors(200, 8);
+      const result = new VectorCompressor({
+        method: CompressionMethod.BOUNDARY_AWARE,
+        gridStep: 0.5,
+        boundaryMargin: 0.05,
+        boundaryLevels: 4,
+      }).compress(vectors);
+
+      const restored = deserialize(serialize(result));
+      expect(restored.model.boundaryLevels).toBe(4);
+      expect(restored.encoded.header.levelBits).toEqual(result.encoded!.header.levelBits);
+      expect(restored.compressed).toEqual(result.compressed);
+
+      const query = normalizeVectors(generateTestVectors(1, 8))[0];
+      const { ids, distances } = CompressedIndex.fromResult(result).search(query, 5);
+      ids.forEach((id, r) => {
+        expect(distances[r]).toBeCloseTo(euclideanDistance(query, result.compressed[id]), 10);
+      });
+    });
+
+    it('should reject invalid boundaryLevels', () => {
+      const vectors = generateTestVectors(10, 4);
+      for (const boundaryLevels of [0, 17, 2.5]) {
+        expect(() =>
+          new VectorCompressor({ method: CompressionMethod.BOUNDARY_AWARE, boundaryLevels })
+            .compress(vectors)
+        ).toThrow(/boundaryLevels/);
+      }
+    });
+  });
+
+  describe('K-means Quantization', () => {
+    it('should map every vector to a centroid', () => {
+      const compressor = new VectorCompressor({
+        method: CompressionMethod.K_MEANS,
+        clusterCount: 16,
+      });
+
+      const vectors = generateTestVectors(200, 8);
+      const result = compressor.compress(vectors);
+
+      expect(result.centroids).toHaveLength(16);
+      expect(result.codes).toHaveLength(200);
+      result.codes!.forEach((code, i) => {
+        expect(code).toBeGreaterThanOrEqual(0);
+        expect(code).toBeLessThan(16);
+        expect(result.compressed[i]).toEqual(result.centroids![code]);
+      });
+    });
+
+    it('should be reproducible for a fixed seed', () => {
+      const vectors = generateTestVectors(100, 8);
+
+      const a = new VectorCompressor({ method: CompressionMethod.K_MEANS, clusterCount: 8, seed: 7 });
+      const b = new VectorCompressor({ method: CompressionMethod.K_MEANS, clusterCount: 8, seed: 7 });
+
+      expect(a.compress(vectors).codes).toEqual(b.compress(vectors).codes);
+    });
+
+    it('should clamp cluster count to the number of vectors', () => {
+      const compressor = new VectorCompressor({ method: CompressionMethod.K_MEANS });
+      const vectors = generateTestVectors(10, 4);
+      const result = compressor.compress(vectors);
+
+      expect(result.centroids).toHaveLength(10);
+    });
+
+    it('should report compression ratio in real bytes', () => {
+      const compressor = new VectorCompressor({
+        method: CompressionMethod.K_MEANS,
+        clusterCount: 16,
+      });
+
+      const vectors = generateTestVectors(1000, 32);
+      const result = compressor.compress(vectors);
+
+      // 1000 × 32 float32s vs. 1000 one-byte codes + 16 × 32 float32 codebook
+      const expected = (1000 * 32 * 4) / (1000 + 16 * 32 * 4);
+      expect(result.compressionRatio).toBeCloseTo(expected, 6);
+    });
+
+    it('should populate centroids in the analysis result', () => {
+      const compressor = new VectorCompressor({
+        method: CompressionMethod.K_MEANS,
+        clusterCount: 8,
+      });
+
+      const vectors = generateTestVectors(100, 8);
+      const result = compressor.compressWithAnalysis(vectors);
+
+      expect(result.centroids).toHaveLength(8);
+      expect(result.metrics.compressionRatio).toBe(result.compressionRatio);
+    });
+
+    it('should keep centroids at the mean of their members after re-seeding', () => {
+      // Seed 1 leaves cluster 1 empty after the first pass; re-seeding it
+      // takes 15 out of cluster 2
+      const vectors = [[3], [11], [12], [15], [1], [3], [9]];
+      const { centroids, codes } = trainKMeans(vectors, 3, 1);
+
+      expect(new Set(codes).size).toBe(3);
+      centroids.forEach((centroid, c) => {
+        const members = vectors.filter((_, i) => codes[i] === c).map(v => v[0]);
+        const mean = members.reduce((a, b) => a + b, 0) / members.length;
+        expect(centroid[0]).toBeCloseTo(mean, 10);
+      });
+    });
+  });
+
+  describe('Random Projection', () => {
+    it('should default to half the input dimensionality', () => {
+      const compressor = new VectorCompressor({
+        method: CompressionMethod.RANDOM_PROJECTION,
+      });
+
+      const vectors = generateTestVectors(50, 16);
+      const result = compressor.compress(vectors);
+
+      expect(result.compressed[0]).toHaveLength(8);
+      expect(result.projection?.targetDim).toBe(8);
+      expect(result.compressionRatio).toBe(2);
+    });
+
+    it('should honor targetDim and seed', () => {
+      const vectors = generateTestVectors(50, 32);
+      const options = {
+        method: CompressionMethod.RANDOM_PROJECTION,
+        targetDim: 4,
+        seed: 123,
+      };
+
+      const a = new VectorCompressor(options).compress(vectors);
+      const b = new VectorCompressor(options).compress(vectors);
+
+      expect(a.compressed[0]).toHaveLength(4);
+      expect(a.compressed).toEqual(b.compressed);
+    });
+
+    it('should generate sparse Achlioptas matrices', () => {
+      const compressor = new VectorCompressor({
+        method: CompressionMethod.RANDOM_PROJECTION,
+        projectionType: ProjectionType.SPARSE,
+        targetDim: 16,
+      });
+
+      const result = compressor.compress(generateTestVectors(20, 64));
+      const scale = Math.sqrt(3 / 16);
+      const entries = result.projection!.weights.flat();
+
+      entries.forEach(w => {
+        expect([0, scale, -scale]).toContain(w);
+      });
+      const zeros = entries.filter(w => w === 0).length;
+      expect(zeros / entries.length).toBeGreaterThan(0.5);
+    });
+
+    it('should project queries consistently with the stored matrix', () => {
+      const compressor = new VectorCompressor({
+        method: CompressionMethod.RANDOM_PROJECTION,
+        targetDim: 8,
+      });
+
+      const vectors = generateTestVectors(30, 16);
+      const result = compressor.compress(vectors);
+      const queries = projectVectors(normalizeVectors(vectors.slice(0, 3)), result.projection!);
+
+      // Stored coordinates are the float32 projection
+      expect(queries.map(q => q.map(x => Math.fround(x)))).toEqual(result.compressed.slice(0, 3));
+    });
+
+    it('should report metrics in the reduced space', () => {
+      const compressor = new VectorCompressor({
+        method: CompressionMethod.RANDOM_PROJECTION,
+        targetDim: 48,
+      });
+
+      const vectors = generateTestVectors(100, 64);
+      const result = compressor.compressWithAnalysis(vectors);
+
+      expect(result.metrics.recall10).toBeGreaterThan(0.3);
+      expect(result.metrics.perDimensionMSE).toHaveLength(0);
+      expect(Number.isNaN(result.metrics.mse)).toBe(false);
+    });
+  });
+
+  describe('Product Quantization', () => {
+    it('should store one byte code per subspace', () => {
+      const compressor = new VectorCompressor({
+        method: CompressionMethod.PRODUCT_QUANTIZATION,
+        subQuantizers: 4,
+        clusterCount: 16,
+      });
+
+      const vectors = generateTestVectors(200, 16);
+      const result = compressor.compress(vectors);
+
+      expect(result.pqCodes).toHaveLength(200);
+      expect(result.pqCodes![0]).toBeInstanceOf(Uint8Array);
+      expect(result.pqCodes![0]).toHaveLength(4);
+      expect(result.productQuantizer!.codebooks).toHaveLength(4);
+      expect(result.compressed[0]).toHaveLength(16);
+    });
+
+    it('should handle dimensions not divisible by subspace count', () => {
+      const compressor = new VectorCompressor({
+        method: CompressionMethod.PRODUCT_QUANTIZATION,
+        subQuantizers: 3,
+        clusterCount: 8,
+      });
+
+      const vectors = generateTestVectors(50, 10);
+      const result = compressor.compress(vectors);
+
+      expect(result.productQuantizer!.offsets).toEqual([0, 3, 6, 10]);
+      expect(result.compressed[0]).toHaveLength(10);
+    });
+
+    it('should reach high compression ratios', () => {
+      const compressor = new VectorCompressor({
+        method: CompressionMethod.PRODUCT_QUANTIZATION,
+        subQuantizers: 8,
+        clusterCount: 16,
+      });
+
+      const vectors = generateTestVectors(2000, 64);
+      const result = compressor.compress(vectors);
+
+      // 2000 × 64 floats vs. 2000 × 8 bytes + 8 × 16 × 8 float codebooks
+      const expected = (2000 * 64 * 32) / (2000 * 64 + 16 * 64 * 32);
+      expect(result.compressionRatio).toBeCloseTo(expected, 6);
+      expect(result.compressionRatio).toBeGreaterThan(16);
+    });
+
+    it('should flow through metrics and regime detection', () => {
+      const compressor = new VectorCompressor({
+        method: CompressionMethod.PRODUCT_QUANTIZATION,
+        subQuantizers: 4,
+        clusterCount: 32,
+      });
+
+      const vectors = generateTestVectors(200, 8);
+      const result = compressor.compressWithAnalysis(vectors);
+
+      expect(result.metrics.recall10).toBeGreaterThan(0);
+      expect(result.metrics.perDimensionMSE).toHaveLength(8);
+      expect(result.metrics.compressionRatio).toBe(result.compressionRatio);
+      expect(Object.values(Regime)).toContain(result.regime);
+    });
+  });
+
+  describe('Optimized Product Quantization', () => {
+    // Variance concentrated in the first 4 of 16 dimensions
+    const generateAnisotropicVectors = (count: number): number[][] =>
+      generateTestVectors(count, 16).map(v => v.map((val, d) => val * (d < 4 ? 10 : 0.5)));
+
+    it('should learn an orthogonal rotation', () => {
+      const compressor = new VectorCompressor({
+        method: CompressionMethod.OPTIMIZED_PRODUCT_QUANTIZATION,
+        subQuantizers: 4,
+        clusterCount: 16,
+        normalize: false,
+      });
+
+      const result = compressor.compress(generateAnisotropicVectors(200));
+      const rotation = result.productQuantizer!.rotation!;
+
+      expect(rotation).toHaveLength(16);
+      for (let a = 0; a < 16; a++) {
+        for (let b = 0; b < 16; b++) {
+          const dot = rotation[a].reduce((sum, val, i) => sum + val * rotation[b][i], 0);
+          expect(dot).toBeCloseTo(a === b ? 1 : 0, 6);
+        }
+      }
+    });
+
+    it('should reduce distortion on anisotropic data', () => {
+      const vectors = generateAnisotropicVectors(300);
+      const options = { subQuantizers: 4, clusterCount: 16, normalize: false };
+
+      const pq = new VectorCompressor({
+        ...options,
+        method: CompressionMethod.PRODUCT_QUANTIZATION,
+      }).compressWithAnalysis(vectors);
+      const opq = new VectorCompressor({
+        ...options,
+        method: CompressionMethod.OPTIMIZED_PRODUCT_QUANTIZATION,
+      }).compressWithAnalysis(vectors);
+
+      expect(opq.metrics.mse).toBeLessThan(pq.metrics.mse);
+      expect(opq.metrics.dimensionCollapseRatio!).toBeLessThan(pq.metrics.dimensionCollapseRatio!);
+    });
+
+    it('should reconstruct vectors in the original space', () => {
+      const compressor = new VectorCompressor({
+        method: CompressionMethod.OPTIMIZED_PRODUCT_QUANTIZATION,
+        subQuantizers: 4,
+        clusterCount: 64,
+        normalize: false,
+      });
+
+      const vectors = generateAnisotropicVectors(100);
+      const result = compressor.compressWithAnalysis(vectors);
+
+      expect(result.compressed[0]).toHaveLength(16);
+      expect(result.pqCodes![0]).toHaveLength(4);
+      expect(result.metrics.recall10).toBeGreaterThan(0.5);
+    });
+  });
+
+  describe('Auto-Tuning', () => {
+    it('should find a grid step meeting targetRecall', () => {
+      const compressor = new VectorCompressor({
+        method: CompressionMethod.LATTICE,
+        autoAdjustGridStep: true,
+        targetRecall: 0.8,
+      });
+
+      const vectors = generateTestVectors(200, 8);
+      const result = compressor.compressWithAnalysis(vectors);
+
+      expect(result.autoTune).toBeDefined();
+      expect(result.autoTune!.targetMet).toBe(true);
+      expect(result.autoTune!.achievedRecall).toBeGreaterThanOrEqual(0.8);
+      expect(result.gridStep).toBe(result.autoTune!.gridStep);
+      expect(result.model!.gridStep).toBe(result.autoTune!.gridStep);
+      expect(result.autoTune!.trace.length).toBeGreaterThan(1);
+    });
+
+    it('should choose a finer grid for a higher recall target', () => {
+      const vectors = generateTestVectors(200, 8);
+      const tune = (targetRecall: number) =>
+        new VectorCompressor({
+          method: CompressionMethod.LATTICE,
+          autoAdjustGridStep: true,
+          targetRecall,
+        }).compress(vectors).autoTune!;
+
+      expect(tune(0.95).gridStep).toBeLessThan(tune(0.6).gridStep);
+    });
+
+    it('should also search the boundary margin', () => {
+      const compressor = new VectorCompressor({
+        method: CompressionMethod.BOUNDARY_AWARE,
+        autoAdjustGridStep: true,
+        targetRecall: 0.8,
+      });
+
+      const result = compressor.compress(generateTestVectors(200, 8));
+
+      expect(result.autoTune!.boundaryMargin).toBeDefined();
+      expect(result.model!.boundaryMargin).toBe(result.autoTune!.boundaryMargin);
+      expect(result.autoTune!.trace.some(step => step.boundaryMargin !== undefined)).toBe(true);
+    });
+
+    it('should not tune unless enabled', () => {
+      const compressor = new VectorCompressor({ targetRecall: 0.99 });
+      const result = compressor.compress(generateTestVectors(50, 8));
+
+      expect(result.autoTune).toBeUndefined();
+      expect(result.model!.gridStep).toBe(0.1);
+    });
   });
 
   describe('Quality Metrics', () => {
@@ -0,0 +1,138 @@
+/**
+ * Tests for configurable distance metrics
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  VectorCompressor,
+  CompressionMethod,
+  DistanceMetric,
+  CompressedIndex,
+  KNNIndex,
+  calculateMetrics,
+  distance,
+  findKNN,
+  normalizeVectors,
+  serialize,
+  deserialize,
+} from '../src';
+
+function generateVectors(count: number, dims: number): number[][] {
+  const vectors: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const vec: number[] = [];
+    for (let j = 0; j < dims; j++) {
+      vec.push(Math.random() * 2 - 1);
+    }
+    vectors.push(vec);
+  }
+  return vectors;
+}
+
+const ALL_METRICS = [
+  DistanceMetric.EUCLIDEAN,
+  DistanceMetric.COSINE,
+  DistanceMetric.INNER_PRODUCT,
+  DistanceMetric.L1,
+];
+
+describe('Distance Metrics', () => {
+  it('should compute each metric', () => {
+    const a = [1, 0, 2];
+    const b = [0, 1, 2];
+
+    expect(distance(a, b)).toBeCloseTo(Math.SQRT2, 10);
+    expect(distance(a, b, DistanceMetric.COSINE)).toBeCloseTo(1 - 4 / 5, 10);
+    expect(distance(a, b, DistanceMetric.INNER_PRODUCT)).toBe(-4);
+    expect(distance(a, b, DistanceMetric.L1)).toBe(2);
+    expect(distance([0, 0], [1, 1], DistanceMetric.COSINE)).toBe(1);
+  });
+
+  it('should reject vectors of different lengths', () => {
+    expect(() => distance([1, 2, 3], [1, 2])).toThrow(/length/);
+    expect(() => distance([1], [1, 2], DistanceMetric.L1)).toThrow(/length/);
+  });
+
+  it('should rank KNNIndex neighbors by the chosen metric', () => {
+    const vectors = generateVectors(200, 8).map((v, i) => v.map(x => x * (1 + (i % 5))));
+    const query = generateVectors(1, 8)[0];
+
+    for (const metric of ALL_METRICS) {
+      const index = new KNNIndex(vectors, { metric });
+      expect(index.search(query, 10)).toEqual(findKNN(query, vectors, 10, metric));
+    }
+  });
+
+  it('should measure recall under the chosen metric', () => {
+    // Scaling changes Euclidean neighbors but not cosine neighbors
+    const vectors = generateVectors(200, 8);
+    const scaled = vectors.map((v, i) => v.map(x => x * (1 + (i % 7))));
+
+    const cosine = calculateMetrics(vectors, scaled, 10, { metric: DistanceMetric.COSINE });
+    const euclidean = calculateMetrics(vectors, scaled, 10);
+
+    expect(cosine.recall10).toBe(1);
+    expect(euclidean.recall10).toBeLessThan(1);
+  });
+
+  it('should carry the metric into the fitted model', () => {
+    const compressor = new VectorCompressor({ metric: DistanceMetric.INNER_PRODUCT });
+    const model = compressor.fit(generateVectors(20, 4));
+
+    expect(model.metric).toBe(DistanceMetric.INNER_PRODUCT);
+  });
+
+  it('should detect boundaries under the chosen metric', () => {
+    const vectors = generateVectors(200, 8);
+    const codes = (metric: DistanceMetric) => {
+      const compressor = new VectorCompressor({
+        method: CompressionMethod.BOUNDARY_AWARE,
+        gridStep: 0.3,
+        boundaryMargin: 0.02,
+        metric,
+      });
+      return compressor.encode(compressor.fit(vectors), vectors);
+    };
+
+    const fineCount = (c: number[][]) => c.filter(code => code[0] === 1).length;
+    expect(fineCount(codes(DistanceMetric.COSINE))).not.toBe(fineCount(codes(DistanceMetric.EUCLIDEAN)));
+  });
+
+  it('should rank compressed-index results by the model metric', () => {
+    const vectors = generateVectors(200, 16);
+    const query = generateVectors(1, 16)[0];
+    const q = normalizeVectors([query])[0];
+    const methods = [
+      CompressionMethod.LATTICE,
+      CompressionMethod.BOUNDARY_AWARE,
+      CompressionMethod.K_MEANS,
+      CompressionMethod.PRODUCT_QUANTIZATION,
+      CompressionMethod.OPTIMIZED_PRODUCT_QUANTIZATION,
+    ];
+
+    for (const method of methods) {
+      for (const metric of ALL_METRICS) {
+        const result = new VectorCompressor({
+          method,
+          metric,
+          gridStep: 0.1,
+          clusterCount: 16,
+          subQuantizers: 4,
+        }).compress(vectors);
+        const { ids, distances } = CompressedIndex.fromResult(result).search(query, 10);
+
+        for (let i = 0; i < ids.length; i++) {
+          expect(distances[i]).toBeCloseTo(distance(q, result.compressed[ids[i]], metric), 5);
+          if (i > 0) expect(distances[i]).toBeGreaterThanOrEqual(distances[i - 1] - 1e-9);
+        }
+      }
+    }
+  });
+
+  it('should preserve the metric through serialization', () => {
+    const compressor = new VectorCompressor({ metric: DistanceMetric.L1 });
+    const result = compressor.compressWithAnalysis(generateVectors(50, 8));
+
+    expect(deserialize(serialize(result)).model?.metric).toBe(DistanceMetric.L1);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for distribution-level metrics
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateDistributionMetrics,
+  calculateMetrics,
+  VectorCompressor,
+  CompressionMethod,
+} from '../src';
+
+function generateVectors(count: number, dims: number): number[][] {
+  const vectors: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const vec: number[] = [];
+    for (let j = 0; j < dims; j++) {
+      vec.push(Math.random() * 2 - 1);
+    }
+    vectors.push(vec);
+  }
+  return vectors;
+}
+
+describe('Distribution Metrics', () => {
+  const vectors = generateVectors(300, 8);
+
+  it('should report zero drift for an identical copy', () => {
+    const metrics = calculateDistributionMetrics(vectors, vectors.map(v => v.slice()));
+
+    expect(metrics.slicedWasserstein).toBe(0);
+    expect(metrics.distanceKL).toBeCloseTo(0, 10);
+    expect(metrics.distanceJS).toBeCloseTo(0, 10);
+  });
+
+  it('should measure sliced Wasserstein of a translation', () => {
+    // Shifting every point by t moves each 1-D projection by t·θ, and
+    // E[(t·θ)²] = ‖t‖² / dim = 1 for t = (1, ..., 1)
+    const shifted = vectors.map(v => v.map(x => x + 1));
+    const metrics = calculateDistributionMetrics(vectors, shifted, { projections: 256 });
+
+    expect(metrics.slicedWasserstein).toBeGreaterThan(0.7);
+    expect(metrics.slicedWasserstein).toBeLessThan(1.3);
+    // Translation preserves pairwise distances
+    expect(metrics.distanceJS).toBeCloseTo(0, 10);
+  });
+
+  it('should detect pairwise distance drift from scaling', () => {
+    const scaled = vectors.map(v => v.map(x => x * 0.5));
+    const metrics = calculateDistributionMetrics(vectors, scaled);
+
+    expect(metrics.distanceKL).toBeGreaterThan(0.5);
+    expect(metrics.distanceJS).toBeGreaterThan(0.2);
+    expect(metrics.distanceJS).toBeLessThanOrEqual(1);
+  });
+
+  it('should omit sliced Wasserstein for reduced-dimension outputs', () => {
+    const projected = vectors.map(v => v.slice(0, 4));
+    const metrics = calculateDistributionMetrics(vectors, projected);
+
+    expect(metrics.slicedWasserstein).toBeUndefined();
+    expect(metrics.distanceJS).toBeGreaterThan(0);
+  });
+
+  it('should be deterministic for a fixed seed', () => {
+    const noisy = vectors.map(v => v.map(x => x + (Math.random() - 0.5) * 0.1));
+    const a = calculateDistributionMetrics(vectors, noisy, { seed: 7 });
+    const b = calculateDistributionMetrics(vectors, noisy, { seed: 7 });
+
+    expect(a).toEqual(b);
+  });
+
+  it('should merge into calculateMetrics only when enabled', () => {
+    const compressed = vectors.map(v => v.map(x => Math.round(x * 4) / 4));
+
+    expect(calculateMetrics(vectors, compressed).distanceJS).toBeUndefined();
+
+    const metrics = calculateMetrics(vectors, compressed, 10, { distribution: true });
+    expect(metrics).toMatchObject(calculateDistributionMetrics(vectors, compressed));
+  });
+
+  it('should report distribution metrics from compressWithAnalysis', () => {
+    const compressor = new VectorCompressor({
+      method: CompressionMethod.LATTICE,
+      gridStep: 0.2,
+      distributionMetrics: true,
+    });
+    const result = compressor.compressWithAnalysis(vectors);
+
+    expect(result.metrics.slicedWasserstein).toBeGreaterThanOrEqual(0);
+    expect(result.metrics.distanceKL).toBeGreaterThanOrEqual(0);
+    expect(result.metrics.distanceJS).toBeGreaterThanOrEqual(0);
+  });
+});
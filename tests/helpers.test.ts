@@ -9,6 +9,8 @@ import {
   estimateGridStep,
   batchCompress,
   compareMethods,
+  VectorCompressor,
+  CompressionMethod,
   Regime,
 } from '../src';
 
@@ -96,6 +98,34 @@ describe('Helper Functions', () => {
       expect(step20x).toBeLessThan(1);
     });
 
+    it('should reach the target ratio with the finest step', () => {
+      const vectors = generateVectors(200, 32);
+      const ratioAt = (gridStep: number) =>
+        new VectorCompressor({ gridStep, boundaryMargin: gridStep }).compress(vectors)
+          .compressionRatio;
+
+      const steps = [3, 5, 8].map(target => {
+        const gridStep = estimateGridStep(vectors, target);
+        expect(ratioAt(gridStep)).toBeGreaterThanOrEqual(target);
+        // A clearly finer step misses the target
+        expect(ratioAt(gridStep / 1.5)).toBeLessThan(target);
+        return gridStep;
+      });
+      expect(steps[0]).toBeLessThan(steps[1]);
+      expect(steps[1]).toBeLessThan(steps[2]);
+    });
+
+    it('should scale with the data under the caller options', () => {
+      const vectors = generateVectors(100, 8);
+      const scaled = vectors.map(v => v.map(x => x * 100));
+
+      const step = estimateGridStep(vectors, 4, { normalize: false });
+      expect(estimateGridStep(scaled, 4, { normalize: false }) / step).toBeCloseTo(100, 6);
+      expect(() =>
+        estimateGridStep(vectors, 4, { method: CompressionMethod.K_MEANS })
+      ).toThrow(/lattice/);
+    });
+
     it('should handle empty vectors', () => {
       const gridStep = estimateGridStep([], 10);
       expect(gridStep).toBe(0.1);
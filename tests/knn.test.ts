@@ -0,0 +1,86 @@
+/**
+ * Tests for the KNN engine
+ */
+
+import { describe, it, expect } from 'vitest';
+import { KNNIndex, topK, findKNN, euclideanDistance } from '../src';
+
+function generateVectors(count: number, dims: number): number[][] {
+  const vectors: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const vec: number[] = [];
+    for (let j = 0; j < dims; j++) {
+      vec.push(Math.random() * 2 - 1);
+    }
+    vectors.push(vec);
+  }
+  return vectors;
+}
+
+/** Reference: full sort of all distances */
+function sortedNeighbors(query: number[], haystack: number[][], k: number): number[] {
+  return haystack
+    .map((v, i) => ({ i, d: euclideanDistance(query, v) }))
+    .sort((a, b) => a.d - b.d)
+    .slice(0, k)
+    .map(e => e.i);
+}
+
+describe('Top-k Selection', () => {
+  it('should return the k smallest values in ascending order', () => {
+    const values = [5, 1, 9, 3, 7, 2, 8];
+    expect(topK(values, 3)).toEqual([1, 5, 3]);
+  });
+
+  it('should break ties by lower index', () => {
+    expect(topK([2, 1, 1, 2, 1], 4)).toEqual([1, 2, 4, 0]);
+  });
+
+  it('should clamp k to the input size', () => {
+    expect(topK([3, 1, 2], 10)).toEqual([1, 2, 0]);
+    expect(topK([3, 1, 2], 0)).toEqual([]);
+    expect(topK([], 5)).toEqual([]);
+  });
+});
+
+describe('KNN Index', () => {
+  const vectors = generateVectors(300, 12);
+
+  it('should match a full sort', () => {
+    const index = new KNNIndex(vectors);
+    for (const q of generateVectors(5, 12)) {
+      expect(index.search(q, 15)).toEqual(sortedNeighbors(q, vectors, 15));
+    }
+  });
+
+  it('should find each vector as its own nearest neighbor', () => {
+    const index = new KNNIndex(vectors);
+    const { ids, distances } = index.searchWithDistances(vectors[42], 3);
+
+    expect(ids[0]).toBe(42);
+    expect(distances[0]).toBe(0);
+    expect(distances[1]).toBeGreaterThan(0);
+  });
+
+  it('should give the same neighbors with precomputed norms', () => {
+    const plain = new KNNIndex(vectors);
+    const withNorms = new KNNIndex(vectors, { precomputeNorms: true });
+    const q = generateVectors(1, 12)[0];
+
+    const a = plain.searchWithDistances(q, 10);
+    const b = withNorms.searchWithDistances(q, 10);
+    expect(b.ids).toEqual(a.ids);
+    b.distances.forEach((d, i) => expect(d).toBeCloseTo(a.distances[i], 4));
+  });
+
+  it('should agree with findKNN', () => {
+    const index = new KNNIndex(vectors);
+    const q = vectors[7];
+    expect(index.search(q, 10)).toEqual(findKNN(q, vectors, 10));
+  });
+
+  it('should reject mismatched dimensions', () => {
+    expect(() => new KNNIndex([[1, 2], [1, 2, 3]])).toThrow();
+    expect(() => new KNNIndex(vectors).search([1, 2], 3)).toThrow();
+  });
+});
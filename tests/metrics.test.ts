@@ -0,0 +1,99 @@
+/**
+ * Tests for the neighbor-quality metric suite
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculateMetrics } from '../src';
+
+function generateVectors(count: number, dims: number): number[][] {
+  const vectors: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const vec: number[] = [];
+    for (let j = 0; j < dims; j++) {
+      vec.push(Math.random() * 2 - 1);
+    }
+    vectors.push(vec);
+  }
+  return vectors;
+}
+
+describe('Neighbor Metrics', () => {
+  const vectors = generateVectors(300, 8);
+
+  it('should score a lossless copy perfectly', () => {
+    const metrics = calculateMetrics(vectors, vectors.map(v => v.slice()));
+
+    expect(metrics.recall5).toBe(1);
+    expect(metrics.recall10).toBe(1);
+    expect(metrics.precision10).toBe(1);
+    expect(metrics.trustworthiness).toBe(1);
+    expect(metrics.continuity).toBe(1);
+    expect(metrics.mrr).toBeCloseTo(1, 10);
+  });
+
+  it('should exclude the query itself from neighbor sets', () => {
+    // Only vector 0 is queried; its own reconstruction is far away, but its
+    // neighbors among the other vectors are untouched
+    const compressed = vectors.map((v, i) => (i === 0 ? v.map(x => x + 100) : v.slice()));
+    const metrics = calculateMetrics(vectors, compressed, 10, { sampleSize: 1 });
+
+    expect(metrics.sampleSize).toBe(1);
+    expect(metrics.recall5).toBe(1);
+    expect(metrics.recall10).toBe(1);
+    expect(metrics.trustworthiness).toBe(1);
+  });
+
+  it('should exclude the query itself when there are fewer than 10 other vectors', () => {
+    const small = generateVectors(8, 4);
+    const metrics = calculateMetrics(small, small.map(v => v.slice()));
+
+    // Only the 7 other vectors can be neighbors at k = 10
+    expect(metrics.recall5).toBe(1);
+    expect(metrics.recall10).toBeCloseTo(0.7, 10);
+    expect(metrics.precision10).toBe(1);
+    expect(metrics.trustworthiness).toBe(1);
+  });
+
+  it('should count surviving centroids up to 6 decimal places', () => {
+    // 30 distinct points, each repeated 10 times with sub-rounding jitter
+    const compressed = vectors.map((_, i) => [
+      (i % 30) / 7 + (i % 2) * 1e-8, -(i % 30) / 3, 0, 0, 0, 0, 0, 0,
+    ]);
+    const metrics = calculateMetrics(vectors, compressed);
+
+    expect(metrics.centroidSurvivalRatio).toBeCloseTo(30 / vectors.length, 10);
+  });
+
+  it('should separate trustworthiness from continuity', () => {
+    // Pushing vectors far away removes them from true neighborhoods
+    // (hurts continuity) while the compressed neighborhoods stay close
+    // to the true ones (trustworthiness stays high)
+    const compressed = vectors.map((v, i) => (i % 3 === 0 ? v.map(x => x * 50) : v.slice()));
+    const metrics = calculateMetrics(vectors, compressed);
+
+    expect(metrics.continuity!).toBeLessThan(metrics.trustworthiness);
+    expect(metrics.trustworthiness).toBeGreaterThan(0.9);
+  });
+
+  it('should flag tied collapsed neighborhoods in precision but not recall alone', () => {
+    // Everything collapses onto a handful of points
+    const compressed = vectors.map((_, i) => [i % 3, 0, 0, 0, 0, 0, 0, 0]);
+    const metrics = calculateMetrics(vectors, compressed);
+
+    expect(metrics.precision10!).toBeLessThan(0.2);
+    expect(metrics.trustworthiness).toBeLessThan(0.9);
+    expect(metrics.mrr).toBeLessThan(0.5);
+  });
+
+  it('should keep rank metrics within [0, 1]', () => {
+    const noisy = vectors.map(v => v.map(x => x + (Math.random() - 0.5) * 0.8));
+    const metrics = calculateMetrics(vectors, noisy);
+
+    for (const value of [metrics.trustworthiness, metrics.continuity!, metrics.mrr]) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThanOrEqual(1);
+    }
+    expect(metrics.trustworthiness).toBeLessThan(1);
+    expect(metrics.mrr).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for fit / encode / decode with trained models
+ */
+
+import { describe, it, expect } from 'vitest';
+import { VectorCompressor, CompressionMethod, packCodes, unpackCodes } from '../src';
+
+function generateVectors(count: number, dims: number): number[][] {
+  const vectors: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const vec: number[] = [];
+    for (let j = 0; j < dims; j++) {
+      vec.push(Math.random() * 2 - 1);
+    }
+    vectors.push(vec);
+  }
+  return vectors;
+}
+
+const methods = [
+  { method: CompressionMethod.LATTICE, gridStep: 0.2 },
+  { method: CompressionMethod.BOUNDARY_AWARE, gridStep: 0.2, boundaryMargin: 0.1 },
+  { method: CompressionMethod.K_MEANS, clusterCount: 16 },
+  { method: CompressionMethod.RANDOM_PROJECTION, targetDim: 4 },
+  { method: CompressionMethod.PRODUCT_QUANTIZATION, subQuantizers: 4, clusterCount: 16 },
+  {
+    method: CompressionMethod.OPTIMIZED_PRODUCT_QUANTIZATION,
+    subQuantizers: 4,
+    clusterCount: 16,
+    opqIterations: 1,
+  },
+];
+
+describe('Compressor Models', () => {
+  methods.forEach(options => {
+    describe(options.method, () => {
+      it('should match compress() when fitted on the same data', () => {
+        const compressor = new VectorCompressor(options);
+        const vectors = generateVectors(100, 8);
+
+        const model = compressor.fit(vectors);
+        const decoded = compressor.decode(model, compressor.encode(model, vectors));
+
+        expect(decoded).toEqual(compressor.compress(vectors).compressed);
+      });
+
+      it('should encode new vectors consistently after a JSON round trip', () => {
+        const compressor = new VectorCompressor(options);
+        const model = compressor.fit(generateVectors(100, 8));
+        const restored = JSON.parse(JSON.stringify(model));
+
+        const incoming = generateVectors(20, 8);
+        expect(compressor.encode(restored, incoming)).toEqual(
+          compressor.encode(model, incoming)
+        );
+      });
+    });
+  });
+
+  it('should encode with the model settings, not the compressor settings', () => {
+    const vectors = generateVectors(50, 8);
+    const model = new VectorCompressor({ method: CompressionMethod.LATTICE, gridStep: 0.5 }).fit(
+      vectors
+    );
+
+    const other = new VectorCompressor({ method: CompressionMethod.K_MEANS });
+    const decoded = other.decode(model, other.encode(model, vectors));
+
+    decoded.forEach(v => {
+      v.forEach(val => {
+        expect(Math.abs(val / 0.5 - Math.round(val / 0.5))).toBeLessThan(1e-9);
+      });
+    });
+  });
+
+  it('should record the refinement level for boundary-aware codes', () => {
+    const compressor = new VectorCompressor({
+      method: CompressionMethod.BOUNDARY_AWARE,
+      gridStep: 0.5,
+      boundaryMargin: 0.1,
+      normalize: false,
+    });
+
+    const model = compressor.fit([[0, 0, 0]]);
+    const codes = compressor.encode(model, [
+      [0, 0, 0],
+      [0.7, 0.7, 0.7],
+    ]);
+
+    expect(codes[0][0]).toBe(0);
+    expect(codes[1][0]).toBe(1);
+  });
+
+  it('should return the fitted model from compress()', () => {
+    const compressor = new VectorCompressor({ method: CompressionMethod.K_MEANS, clusterCount: 8 });
+    const result = compressor.compress(generateVectors(50, 8));
+
+    expect(result.model?.method).toBe(CompressionMethod.K_MEANS);
+    expect(result.model?.centroids).toEqual(result.centroids);
+  });
+
+  it('should reject vectors of the wrong dimension', () => {
+    const compressor = new VectorCompressor();
+    const model = compressor.fit(generateVectors(10, 8));
+
+    expect(() => compressor.encode(model, generateVectors(1, 4))).toThrow();
+  });
+
+  it('should reject OPQ above 256 dimensions', () => {
+    const opq = new VectorCompressor({
+      method: CompressionMethod.OPTIMIZED_PRODUCT_QUANTIZATION,
+      subQuantizers: 8,
+    });
+
+    expect(() => opq.fit(generateVectors(4, 257))).toThrow(/at most 256 dimensions/);
+  });
+
+  it('should reject fitting on empty input', () => {
+    const compressor = new VectorCompressor();
+    expect(() => compressor.fit([])).toThrow();
+  });
+
+  describe('Packed Codes', () => {
+    it('should round-trip codes through the packed form', () => {
+      methods.forEach(options => {
+        const compressor = new VectorCompressor(options);
+        const vectors = generateVectors(50, 8);
+        const model = compressor.fit(vectors);
+        const codes = compressor.encode(model, vectors);
+
+        expect(unpackCodes(packCodes(model, codes))).toEqual(codes);
+      });
+    });
+
+    it('should reconstruct random projections exactly from their float32 codes', () => {
+      const compressor = new VectorCompressor({
+        method: CompressionMethod.RANDOM_PROJECTION,
+        targetDim: 4,
+      });
+      const result = compressor.compress(generateVectors(30, 8));
+
+      expect(result.encoded!.codes).toBeInstanceOf(Float32Array);
+      expect(unpackCodes(result.encoded!)).toEqual(result.compressed);
+      expect(compressor.decode(result.model!, result.encoded!)).toEqual(result.compressed);
+    });
+
+    it('should store boundary-aware levels separately', () => {
+      const compressor = new VectorCompressor({ gridStep: 0.2 });
+      const result = compressor.compress(generateVectors(30, 8));
+
+      expect(result.encoded!.levels).toHaveLength(30);
+      expect(result.encoded!.header.codeLength).toBe(8);
+      expect(compressor.decode(result.model!, result.encoded!)).toEqual(result.compressed);
+    });
+
+    it('should use byte codes for PQ and K-means', () => {
+      const vectors = generateVectors(100, 8);
+      const pq = new VectorCompressor(methods[4]).compress(vectors);
+      const kmeans = new VectorCompressor(methods[2]).compress(vectors);
+
+      expect(pq.encoded!.codes).toBeInstanceOf(Uint8Array);
+      expect(pq.encoded!.codes).toHaveLength(100 * 4);
+      expect(kmeans.encoded!.codes).toBeInstanceOf(Uint8Array);
+      expect(kmeans.encoded!.codes).toHaveLength(100);
+    });
+  });
+});
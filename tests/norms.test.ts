@@ -0,0 +1,193 @@
+/**
+ * Tests for preserved vector norms
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  VectorCompressor,
+  CompressionMethod,
+  CompressedIndex,
+  DistanceMetric,
+  dotProduct,
+  distance,
+  topK,
+  serialize,
+  deserialize,
+  unpackCodes,
+} from '../src';
+
+function generateVectors(count: number, dims: number): number[][] {
+  const vectors: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const vec: number[] = [];
+    for (let j = 0; j < dims; j++) {
+      vec.push(Math.random() * 2 - 1);
+    }
+    vectors.push(vec);
+  }
+  return vectors;
+}
+
+/** Vectors with norms spread over roughly [0.5, 5] */
+function generateScaledVectors(count: number, dims: number): number[][] {
+  return generateVectors(count, dims).map(v => {
+    const scale = (0.5 + Math.random() * 4.5) / Math.sqrt(dotProduct(v, v));
+    return v.map(x => x * scale);
+  });
+}
+
+const norm = (v: number[]) => Math.sqrt(dotProduct(v, v));
+
+describe('Preserved Norms', () => {
+  const vectors = generateScaledVectors(300, 16);
+
+  const methods = [
+    { method: CompressionMethod.LATTICE, gridStep: 0.05 },
+    { method: CompressionMethod.BOUNDARY_AWARE, gridStep: 0.05 },
+    { method: CompressionMethod.K_MEANS, clusterCount: 32 },
+    { method: CompressionMethod.PRODUCT_QUANTIZATION, subQuantizers: 4, clusterCount: 16 },
+    { method: CompressionMethod.RANDOM_PROJECTION, targetDim: 8 },
+  ];
+
+  for (const options of methods) {
+    it(`should restore the original scale for ${options.method}`, () => {
+      const result = new VectorCompressor({ ...options, preserveNorms: true }).compress(vectors);
+      const quantizer = result.model!.normQuantizer!;
+      const tolerance = (quantizer.max - quantizer.min) / 255;
+
+      expect(result.encoded!.norms).toBeInstanceOf(Uint8Array);
+      expect(result.encoded!.norms!.length).toBe(vectors.length);
+      // Projected codes live in the reduced space and are packed as float32
+      if (options.method !== CompressionMethod.RANDOM_PROJECTION) {
+        // Unit-space reconstructions are not exactly unit length, so allow
+        // the quantization error of the direction as well
+        result.compressed.forEach((c, i) => {
+          expect(Math.abs(norm(c) - norm(vectors[i]))).toBeLessThan(
+            tolerance + norm(vectors[i]) * 0.5
+          );
+        });
+
+        // Round trip through the packed form keeps the norm codes
+        const compressor = new VectorCompressor({ ...options, preserveNorms: true });
+        expect(compressor.decode(result.model!, result.encoded!)).toEqual(result.compressed);
+      }
+      expect(unpackCodes(result.encoded!).map(c => c[c.length - 1])).toEqual(
+        Array.from(result.encoded!.norms!)
+      );
+    });
+  }
+
+  it('should quantize norms to within half a step', () => {
+    const result = new VectorCompressor({
+      method: CompressionMethod.LATTICE,
+      gridStep: 0,
+      preserveNorms: true,
+    }).compress(vectors);
+    const { min, max } = result.model!.normQuantizer!;
+
+    result.compressed.forEach((c, i) => {
+      const error = Math.abs(norm(c) - norm(vectors[i]));
+      expect(error).toBeLessThanOrEqual((max - min) / 255 / 2 + 1e-9);
+    });
+  });
+
+  it('should use 16-bit norm codes for higher precision', () => {
+    const compress = (normBits: number) =>
+      new VectorCompressor({
+        method: CompressionMethod.LATTICE,
+        gridStep: 0,
+        preserveNorms: true,
+        normBits,
+      }).compress(vectors);
+    const error = (result: ReturnType<typeof compress>) =>
+      Math.max(...result.compressed.map((c, i) => Math.abs(norm(c) - norm(vectors[i]))));
+
+    const wide = compress(16);
+    expect(wide.encoded!.norms).toBeInstanceOf(Uint16Array);
+    expect(error(wide)).toBeLessThan(error(compress(4)));
+  });
+
+  it('should reject invalid normBits', () => {
+    expect(() =>
+      new VectorCompressor({ preserveNorms: true, normBits: 0 }).compress(vectors)
+    ).toThrow(/normBits/);
+    expect(() =>
+      new VectorCompressor({ preserveNorms: true, normBits: 17 }).compress(vectors)
+    ).toThrow(/normBits/);
+  });
+
+  it('should count norm bytes in the compression ratio', () => {
+    const options = { method: CompressionMethod.K_MEANS, clusterCount: 16 };
+    const plain = new VectorCompressor(options).compress(vectors);
+    const withNorms = new VectorCompressor({ ...options, preserveNorms: true }).compress(vectors);
+
+    expect(withNorms.compressionRatio).toBeLessThan(plain.compressionRatio);
+    expect(withNorms.codes).toEqual(plain.codes);
+  });
+
+  it('should compare metrics in the space of the reconstructions', () => {
+    const lossless = { method: CompressionMethod.LATTICE, gridStep: 0 };
+
+    // Normalized reconstructions are compared with normalized originals
+    const normalized = new VectorCompressor(lossless).compressWithAnalysis(vectors);
+    expect(normalized.metrics.mse).toBeLessThan(1e-20);
+    expect(normalized.metrics.recall10).toBe(1);
+
+    // Rescaled reconstructions are compared with the raw originals
+    const rescaled = new VectorCompressor({ ...lossless, preserveNorms: true })
+      .compressWithAnalysis(vectors);
+    expect(rescaled.metrics.mse).toBeLessThan(1e-3);
+    expect(rescaled.original).toBe(vectors);
+  });
+
+  it('should rank by inner product at the original scale', () => {
+    const query = generateVectors(1, 16)[0];
+    const exact = topK(vectors.map(v => -dotProduct(v, query)), 10);
+    const recall = (preserveNorms: boolean) => {
+      const result = new VectorCompressor({
+        method: CompressionMethod.PRODUCT_QUANTIZATION,
+        subQuantizers: 8,
+        clusterCount: 32,
+        metric: DistanceMetric.INNER_PRODUCT,
+        preserveNorms,
+      }).compress(vectors);
+      const { ids } = CompressedIndex.fromResult(result).search(query, 10);
+      return ids.filter(id => exact.includes(id)).length / 10;
+    };
+
+    expect(recall(true)).toBeGreaterThan(recall(false));
+  });
+
+  it('should score codebook searches like decoded vectors', () => {
+    const query = generateVectors(1, 16)[0];
+    const metrics = [DistanceMetric.EUCLIDEAN, DistanceMetric.INNER_PRODUCT, DistanceMetric.L1];
+    for (const metric of metrics) {
+      const result = new VectorCompressor({
+        method: CompressionMethod.OPTIMIZED_PRODUCT_QUANTIZATION,
+        subQuantizers: 4,
+        clusterCount: 16,
+        metric,
+        preserveNorms: true,
+      }).compress(vectors);
+      const { ids, distances } = CompressedIndex.fromResult(result).search(query, 5);
+
+      ids.forEach((id, r) => {
+        expect(distances[r]).toBeCloseTo(distance(query, result.compressed[id], metric), 6);
+      });
+    }
+  });
+
+  it('should serialize norm codes and the norm quantizer', () => {
+    const result = new VectorCompressor({
+      method: CompressionMethod.BOUNDARY_AWARE,
+      gridStep: 0.1,
+      preserveNorms: true,
+    }).compress(vectors);
+    const restored = deserialize(serialize(result));
+
+    expect(restored.model.normQuantizer).toEqual(result.model!.normQuantizer);
+    expect(restored.encoded.norms).toEqual(result.encoded!.norms);
+    expect(unpackCodes(restored.encoded)).toEqual(unpackCodes(result.encoded!));
+    expect(restored.compressed).toEqual(result.compressed);
+  });
+});
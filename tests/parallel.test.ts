@@ -0,0 +1,94 @@
+/**
+ * Tests for worker-thread parallel mode
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import {
+  VectorCompressor,
+  CompressionMethod,
+  encodeParallel,
+  calculateMetricsParallel,
+  calculateMetrics,
+} from '../src';
+
+function generateVectors(count: number, dims: number): number[][] {
+  const vectors: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const vec: number[] = [];
+    for (let j = 0; j < dims; j++) {
+      vec.push(Math.random() * 2 - 1);
+    }
+    vectors.push(vec);
+  }
+  return vectors;
+}
+
+describe('Parallel Mode', () => {
+  const vectors = generateVectors(300, 16);
+  // Built by `npm run build`, which `npm test` runs first
+  const dist = path.resolve(__dirname, '../dist');
+  const workerScript = path.join(dist, 'worker.js');
+
+  it('should encode identically to encode() for any worker count', async () => {
+    const compressor = new VectorCompressor({ method: CompressionMethod.K_MEANS, clusterCount: 16 });
+    const model = compressor.fit(vectors);
+    const expected = compressor.encode(model, vectors);
+
+    expect(await encodeParallel(model, vectors, { workers: 1, workerScript })).toEqual(expected);
+    expect(await encodeParallel(model, vectors, { workers: 3, workerScript })).toEqual(expected);
+  }, 60000);
+
+  it('should compute identical metrics for any worker count', async () => {
+    const compressed = new VectorCompressor({ gridStep: 0.2 }).compress(vectors).compressed;
+    const expected = calculateMetrics(vectors, compressed);
+
+    for (const workers of [2, 4]) {
+      expect(
+        await calculateMetricsParallel(vectors, compressed, 10, { workers, workerScript })
+      ).toEqual(expected);
+    }
+  }, 60000);
+
+  it('should match compressWithAnalysis()', async () => {
+    const compressor = new VectorCompressor({
+      method: CompressionMethod.PRODUCT_QUANTIZATION,
+      subQuantizers: 4,
+      clusterCount: 16,
+      seed: 7,
+    });
+    const sequential = compressor.compressWithAnalysis(vectors);
+    const parallel = await compressor.compressWithAnalysisParallel(vectors, {
+      workers: 2,
+      workerScript,
+    });
+
+    expect(parallel.compressed).toEqual(sequential.compressed);
+    expect(parallel.encoded).toEqual(sequential.encoded);
+    expect(parallel.metrics).toEqual(sequential.metrics);
+    expect(parallel.regime).toBe(sequential.regime);
+  }, 60000);
+
+  it('should reject a missing worker script', async () => {
+    const model = new VectorCompressor().fit(vectors);
+    await expect(
+      encodeParallel(model, vectors, { workers: 1, workerScript: `${workerScript}.missing` })
+    ).rejects.toThrow();
+  }, 60000);
+
+  it('should find the compiled worker from the ES module entry', async () => {
+    const lib = await import(path.join(dist, 'index.mjs'));
+    const compressor = new lib.VectorCompressor({ method: CompressionMethod.K_MEANS, seed: 3 });
+    const model = compressor.fit(vectors);
+
+    expect(await lib.encodeParallel(model, vectors, { workers: 2 })).toEqual(
+      compressor.encode(model, vectors)
+    );
+  }, 60000);
+
+  it('should handle empty input', async () => {
+    const result = await new VectorCompressor().compressWithAnalysisParallel([]);
+    expect(result.compressed).toEqual([]);
+    expect(await encodeParallel(new VectorCompressor().fit(vectors), [])).toEqual([]);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Tests for regime policies and threshold calibration
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  VectorCompressor,
+  CompressionMethod,
+  Regime,
+  calculateMetrics,
+  detectRegime,
+  calibrateRegimePolicy,
+  DEFAULT_REGIME_THRESHOLDS,
+  CompressionMetrics,
+} from '../src';
+
+function generateVectors(count: number, dims: number): number[][] {
+  const vectors: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const vec: number[] = [];
+    for (let j = 0; j < dims; j++) {
+      vec.push(Math.random() * 2 - 1);
+    }
+    vectors.push(vec);
+  }
+  return vectors;
+}
+
+function withCollapseIndex(collapseIndex: number): CompressionMetrics {
+  return { ...calculateMetrics([[0]], [[0]]), collapseIndex };
+}
+
+describe('Regime Policy', () => {
+  it('should use the built-in thresholds by default', () => {
+    expect(detectRegime(withCollapseIndex(0.1))).toBe(Regime.STABLE);
+    expect(detectRegime(withCollapseIndex(0.2))).toBe(Regime.PRE_COLLAPSE);
+    expect(detectRegime(withCollapseIndex(0.4))).toBe(Regime.COLLAPSE);
+    expect(detectRegime(withCollapseIndex(0.7))).toBe(Regime.POST_COLLAPSE);
+    expect(detectRegime(withCollapseIndex(0.4), {})).toBe(Regime.COLLAPSE);
+  });
+
+  it('should apply custom thresholds', () => {
+    const policy = { thresholds: { preCollapse: 0.05, collapse: 0.1 } };
+
+    expect(detectRegime(withCollapseIndex(0.08), policy)).toBe(Regime.PRE_COLLAPSE);
+    expect(detectRegime(withCollapseIndex(0.2), policy)).toBe(Regime.COLLAPSE);
+    expect(detectRegime(withCollapseIndex(0.7), policy)).toBe(Regime.POST_COLLAPSE);
+  });
+
+  it('should reject thresholds that are not increasing', () => {
+    expect(() =>
+      detectRegime(withCollapseIndex(0.1), { thresholds: { collapse: 0.9 } })
+    ).toThrow(/increasing/);
+  });
+
+  it('should apply custom rules in order', () => {
+    const policy = {
+      rules: [
+        (m: CompressionMetrics) => (m.recall10 < 0.5 ? Regime.POST_COLLAPSE : undefined),
+        (_: CompressionMetrics, regime: Regime) =>
+          regime === Regime.POST_COLLAPSE ? Regime.COLLAPSE : undefined,
+      ],
+    };
+    const metrics = { ...withCollapseIndex(0.05), recall10: 0.3 };
+
+    expect(detectRegime(metrics)).toBe(Regime.STABLE);
+    expect(detectRegime(metrics, policy)).toBe(Regime.COLLAPSE);
+  });
+
+  it('should weight the collapse index terms', () => {
+    const vectors = generateVectors(200, 8);
+    const compressed = vectors.map(v => v.map(x => Math.round(x * 2) / 2));
+    const defaults = calculateMetrics(vectors, compressed);
+    const recallOnly = calculateMetrics(vectors, compressed, 10, {
+      weights: { recall5: 1, precision10: 0, kVariance: 0, centroidSurvival: 0 },
+    });
+
+    expect(recallOnly.collapseIndex).toBeCloseTo(1 - defaults.recall5, 10);
+    expect(recallOnly.collapseIndex).not.toBeCloseTo(defaults.collapseIndex!, 5);
+  });
+
+  it('should pass the policy through compressWithAnalysis', () => {
+    const vectors = generateVectors(200, 8);
+    const compressor = new VectorCompressor({ method: CompressionMethod.LATTICE, gridStep: 0.5 });
+
+    const strict = compressor.compressWithAnalysis(vectors, {
+      thresholds: { preCollapse: 0, collapse: 0, postCollapse: 0 },
+    });
+    expect(strict.regime).toBe(Regime.POST_COLLAPSE);
+
+    const lenient = compressor.compressWithAnalysis(vectors, {
+      weights: { recall5: 0, precision10: 0, kVariance: 0, centroidSurvival: 0 },
+    });
+    expect(lenient.metrics.collapseIndex).toBe(0);
+    expect(lenient.regime).toBe(Regime.STABLE);
+  });
+});
+
+describe('Regime Calibration', () => {
+  it('should place the collapse threshold between labeled examples', () => {
+    const examples = [
+      { metrics: withCollapseIndex(0.05), acceptable: true },
+      { metrics: withCollapseIndex(0.1), acceptable: true },
+      { metrics: withCollapseIndex(0.2), acceptable: false },
+      { metrics: withCollapseIndex(0.5), acceptable: false },
+    ];
+    const calibration = calibrateRegimePolicy(examples);
+    const thresholds = calibration.policy.thresholds!;
+
+    expect(calibration.accuracy).toBe(1);
+    expect(thresholds.collapse).toBeCloseTo(0.15, 10);
+    expect(thresholds.preCollapse! / thresholds.collapse!).toBeCloseTo(
+      DEFAULT_REGIME_THRESHOLDS.preCollapse / DEFAULT_REGIME_THRESHOLDS.collapse,
+      10
+    );
+    for (const { metrics, acceptable } of examples) {
+      const regime = detectRegime(metrics, calibration.policy);
+      expect(regime === Regime.STABLE || regime === Regime.PRE_COLLAPSE).toBe(acceptable);
+    }
+  });
+
+  it('should minimize misclassifications on overlapping labels', () => {
+    const calibration = calibrateRegimePolicy([
+      { metrics: withCollapseIndex(0.1), acceptable: true },
+      { metrics: withCollapseIndex(0.3), acceptable: false },
+      { metrics: withCollapseIndex(0.4), acceptable: true },
+      { metrics: withCollapseIndex(0.6), acceptable: false },
+      { metrics: withCollapseIndex(0.7), acceptable: false },
+    ]);
+
+    expect(calibration.accuracy).toBeCloseTo(0.8, 10);
+    expect(calibration.falseAccepts + calibration.falseRejects).toBe(1);
+  });
+
+  it('should keep the default threshold when it already separates the labels', () => {
+    const calibration = calibrateRegimePolicy([
+      { metrics: withCollapseIndex(0.1), acceptable: true },
+      { metrics: withCollapseIndex(0.6), acceptable: false },
+    ]);
+
+    expect(calibration.policy.thresholds!.collapse).toBeCloseTo(0.35, 10);
+  });
+
+  it('should recompute the collapse index with policy weights', () => {
+    const base = calculateMetrics([[0]], [[0]]);
+    const examples = [
+      { metrics: { ...base, recall5: 0.9, collapseIndex: 0.9 }, acceptable: true },
+      { metrics: { ...base, recall5: 0.2, collapseIndex: 0.1 }, acceptable: false },
+    ];
+    const weights = { recall5: 1, precision10: 0, kVariance: 0, centroidSurvival: 0 };
+
+    expect(calibrateRegimePolicy(examples).accuracy).toBe(0.5);
+    const calibration = calibrateRegimePolicy(examples, { weights });
+    expect(calibration.accuracy).toBe(1);
+    expect(calibration.policy.weights).toEqual(weights);
+  });
+
+  it('should score accuracy through the policy rules', () => {
+    const base = calculateMetrics([[0]], [[0]]);
+    const examples = [
+      { metrics: { ...base, collapseIndex: 0.1, recall10: 0.9 }, acceptable: true },
+      { metrics: { ...base, collapseIndex: 0.1, recall10: 0.2 }, acceptable: false },
+      { metrics: { ...base, collapseIndex: 0.6, recall10: 0.9 }, acceptable: false },
+    ];
+    const rules = [
+      (metrics: CompressionMetrics) => (metrics.recall10 < 0.5 ? Regime.COLLAPSE : undefined),
+    ];
+
+    // The threshold alone cannot tell the first two examples apart
+    expect(calibrateRegimePolicy(examples).accuracy).toBeCloseTo(2 / 3, 10);
+    const calibration = calibrateRegimePolicy(examples, { rules });
+    expect(calibration.accuracy).toBe(1);
+    expect(calibration.policy.rules).toBe(rules);
+    expect(calibration.policy.thresholds!.collapse).toBeCloseTo(0.35, 10);
+  });
+
+  it('should require examples', () => {
+    expect(() => calibrateRegimePolicy([])).toThrow();
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for residual (multi-stage) quantization
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  VectorCompressor,
+  CompressionMethod,
+  CompressedIndex,
+  DistanceMetric,
+  distance,
+  normalizeVectors,
+  trainResidualQuantizer,
+  encodeResidualQuantizer,
+  decodeResidualQuantizer,
+  serialize,
+  deserialize,
+  candidateSettings,
+} from '../src';
+
+function generateVectors(count: number, dims: number): number[][] {
+  const vectors: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const vec: number[] = [];
+    for (let j = 0; j < dims; j++) {
+      vec.push(Math.random() * 2 - 1);
+    }
+    vectors.push(vec);
+  }
+  return vectors;
+}
+
+function mse(a: number[][], b: number[][]): number {
+  let sum = 0;
+  a.forEach((v, i) => v.forEach((x, d) => (sum += (x - b[i][d]) ** 2)));
+  return sum / a.length;
+}
+
+describe('Residual Quantization', () => {
+  const vectors = generateVectors(300, 16);
+  const residual = { method: CompressionMethod.RESIDUAL_QUANTIZATION, clusterCount: 16 };
+
+  it('should store one byte code per stage', () => {
+    const result = new VectorCompressor({ ...residual, residualStages: 3 }).compress(vectors);
+    const { header, codes } = result.encoded!;
+
+    expect(codes).toBeInstanceOf(Uint8Array);
+    expect(header.codeLength).toBe(3);
+    expect(result.model!.residualQuantizer!.codebooks).toHaveLength(3);
+  });
+
+  it('should start with the k-means codebook', () => {
+    const kmeans = new VectorCompressor({ ...residual, method: CompressionMethod.K_MEANS })
+      .compress(vectors);
+    const oneStage = new VectorCompressor({ ...residual, residualStages: 1 }).compress(vectors);
+
+    expect(oneStage.model!.residualQuantizer!.codebooks[0]).toEqual(kmeans.model!.centroids);
+    expect(oneStage.compressed).toEqual(kmeans.compressed);
+  });
+
+  it('should reduce distortion with every stage', () => {
+    const data = normalizeVectors(vectors);
+    const rq = trainResidualQuantizer(data, 4, 16, 42);
+    const { distortion } = rq;
+
+    expect(distortion).toHaveLength(4);
+    for (let s = 1; s < distortion.length; s++) {
+      expect(distortion[s]).toBeLessThan(distortion[s - 1]);
+    }
+
+    // Greedy encoding of the training set reproduces the training distortion
+    const decoded = decodeResidualQuantizer(encodeResidualQuantizer(data, rq), rq, 16);
+    expect(mse(data, decoded)).toBeCloseTo(distortion[3], 10);
+  });
+
+  it('should lower reconstruction error as stages are added', () => {
+    const error = (residualStages: number) => {
+      const result = new VectorCompressor({ ...residual, residualStages }).compress(vectors);
+      return mse(normalizeVectors(vectors), result.compressed);
+    };
+
+    expect(error(4)).toBeLessThan(error(2));
+    expect(error(2)).toBeLessThan(error(1));
+  });
+
+  it('should stop adding stages once the distortion target is met', () => {
+    const full = trainResidualQuantizer(vectors, 6, 16, 42);
+    const target = full.distortion[1];
+    const early = trainResidualQuantizer(vectors, 6, 16, 42, target);
+
+    expect(early.codebooks).toHaveLength(2);
+    expect(early.distortion).toEqual(full.distortion.slice(0, 2));
+
+    // An unreachable target uses every stage
+    expect(trainResidualQuantizer(vectors, 3, 16, 42, 1e-12).codebooks).toHaveLength(3);
+  });
+
+  it('should trade compression ratio for distortion through the stage count', () => {
+    const ratio = (residualStages: number) =>
+      new VectorCompressor({ ...residual, residualStages }).compress(vectors).compressionRatio;
+    expect(ratio(2)).toBeGreaterThan(ratio(4));
+  });
+
+  it('should reject invalid settings', () => {
+    expect(() => trainResidualQuantizer(vectors, 0, 16, 42)).toThrow(/residualStages/);
+    expect(() => trainResidualQuantizer(vectors, 2.5, 16, 42)).toThrow(/residualStages/);
+    expect(() => trainResidualQuantizer(vectors, 2, 16, 42, -1)).toThrow(/targetDistortion/);
+  });
+
+  it('should score searches like decoded vectors', () => {
+    const query = generateVectors(1, 16)[0];
+    const metrics = [
+      DistanceMetric.EUCLIDEAN,
+      DistanceMetric.INNER_PRODUCT,
+      DistanceMetric.COSINE,
+      DistanceMetric.L1,
+    ];
+    for (const metric of metrics) {
+      for (const preserveNorms of [false, true]) {
+        const result = new VectorCompressor({
+          ...residual,
+          residualStages: 3,
+          metric,
+          preserveNorms,
+        }).compress(vectors);
+        const { ids, distances } = CompressedIndex.fromResult(result).search(query, 5);
+        // Unit-space indexes normalize the query; rescaled ones keep its scale
+        const q = preserveNorms ? query : normalizeVectors([query])[0];
+
+        const scored = result.compressed.map(c => distance(q, c, metric));
+        const best = [...scored].sort((a, b) => a - b).slice(0, 5);
+        ids.forEach((id, r) => {
+          expect(distances[r]).toBeCloseTo(scored[id], 6);
+          expect(distances[r]).toBeCloseTo(best[r], 6);
+        });
+      }
+    }
+  });
+
+  it('should serialize stage codebooks and distortion', () => {
+    const result = new VectorCompressor({ ...residual, residualStages: 3 }).compress(vectors);
+    const restored = deserialize(serialize(result));
+    const rq = restored.model.residualQuantizer!;
+
+    expect(rq.distortion).toEqual(result.model!.residualQuantizer!.distortion);
+    expect(rq.codebooks).toHaveLength(3);
+    rq.codebooks.forEach((book, s) => {
+      book.forEach((c, j) => {
+        c.forEach((x, d) => {
+          expect(x).toBeCloseTo(result.model!.residualQuantizer!.codebooks[s][j][d], 6);
+        });
+      });
+    });
+    expect(restored.encoded.codes).toEqual(result.encoded!.codes);
+  });
+
+  it('should be explored by the ratio solver', () => {
+    const settings = candidateSettings(CompressionMethod.RESIDUAL_QUANTIZATION, 16);
+    expect(settings.map(s => s.residualStages)).toEqual([2, 4, 8]);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for metric sampling and confidence intervals
+ */
+
+import { describe, it, expect } from 'vitest';
+import { VectorCompressor, SamplingStrategy, calculateMetrics } from '../src';
+
+function generateVectors(count: number, dims: number): number[][] {
+  const vectors: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const vec: number[] = [];
+    for (let j = 0; j < dims; j++) {
+      vec.push(Math.random() * 2 - 1);
+    }
+    vectors.push(vec);
+  }
+  return vectors;
+}
+
+function quantize(vectors: number[][], step: number): number[][] {
+  return vectors.map(v => v.map(x => Math.round(x / step) * step));
+}
+
+describe('Metric Sampling', () => {
+  const vectors = generateVectors(600, 8);
+  const compressed = quantize(vectors, 0.3);
+
+  it('should measure at most sampleSize queries', () => {
+    expect(calculateMetrics(vectors, compressed).sampleSize).toBe(200);
+    expect(calculateMetrics(vectors, compressed, 10, { sampleSize: 50 }).sampleSize).toBe(50);
+    expect(calculateMetrics(vectors, compressed, 10, { sampleSize: 1000 }).sampleSize).toBe(600);
+  });
+
+  for (const sampling of [SamplingStrategy.RANDOM, SamplingStrategy.STRATIFIED]) {
+    it(`should be reproducible for a seed (${sampling})`, () => {
+      const a = calculateMetrics(vectors, compressed, 10, { sampling, sampleSize: 80, seed: 1 });
+      const b = calculateMetrics(vectors, compressed, 10, { sampling, sampleSize: 80, seed: 1 });
+      const c = calculateMetrics(vectors, compressed, 10, { sampling, sampleSize: 80, seed: 2 });
+
+      expect(a).toEqual(b);
+      expect(a.sampleSize).toBe(80);
+      expect(c.mse).not.toBe(a.mse);
+    });
+  }
+
+  it('should compute Kendall tau beyond the first vectors', () => {
+    // The first 40 vectors are preserved exactly, the rest are scrambled
+    const scrambled = vectors.map((v, i) => (i < 40 ? v : generateVectors(1, 8)[0]));
+    const metrics = calculateMetrics(vectors, scrambled);
+
+    expect(metrics.kendallTau).toBeLessThan(0.5);
+  });
+});
+
+describe('Bootstrap Confidence Intervals', () => {
+  const vectors = generateVectors(400, 8);
+  const compressed = quantize(vectors, 0.4);
+
+  it('should be absent by default', () => {
+    expect(calculateMetrics(vectors, compressed).confidence).toBeUndefined();
+  });
+
+  it('should bracket the point estimates', () => {
+    const metrics = calculateMetrics(vectors, compressed, 10, { bootstrapResamples: 200 });
+    const ci = metrics.confidence!;
+
+    expect(ci.level).toBe(0.95);
+    expect(ci.resamples).toBe(200);
+    for (const key of ['recall5', 'recall10', 'mrr', 'collapseIndex'] as const) {
+      expect(ci[key].lower).toBeLessThanOrEqual(ci[key].upper);
+      expect(ci[key].lower).toBeLessThanOrEqual(metrics[key]! + 1e-9);
+      expect(ci[key].upper).toBeGreaterThanOrEqual(metrics[key]! - 1e-9);
+    }
+  });
+
+  it('should narrow at a lower confidence level', () => {
+    const wide = calculateMetrics(vectors, compressed, 10, { bootstrapResamples: 200 });
+    const narrow = calculateMetrics(vectors, compressed, 10, {
+      bootstrapResamples: 200,
+      confidenceLevel: 0.5,
+    });
+    const width = (m: typeof wide) => m.confidence!.recall10.upper - m.confidence!.recall10.lower;
+
+    expect(width(narrow)).toBeLessThan(width(wide));
+  });
+
+  it('should be reported by compressWithAnalysis', () => {
+    const compressor = new VectorCompressor({
+      gridStep: 0.3,
+      bootstrapResamples: 100,
+      sampling: SamplingStrategy.STRATIFIED,
+      sampleSize: 100,
+    });
+    const result = compressor.compressWithAnalysis(vectors);
+
+    expect(result.metrics.sampleSize).toBe(100);
+    expect(result.metrics.confidence?.collapseIndex.upper).toBeGreaterThanOrEqual(
+      result.metrics.confidence!.collapseIndex.lower
+    );
+  });
+});
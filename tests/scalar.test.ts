@@ -0,0 +1,174 @@
+/**
+ * Tests for scalar quantization (SQ8 / SQ4)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  VectorCompressor,
+  CompressionMethod,
+  ScalarCalibration,
+  CompressedIndex,
+  DistanceMetric,
+  distance,
+  trainScalarQuantizer,
+  encodeScalarQuantizer,
+  decodeScalarQuantizer,
+  expandCodes,
+  unpackCodes,
+  serialize,
+  deserialize,
+  candidateSettings,
+} from '../src';
+
+function generateVectors(count: number, dims: number): number[][] {
+  const vectors: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const vec: number[] = [];
+    for (let j = 0; j < dims; j++) {
+      vec.push(Math.random() * 2 - 1);
+    }
+    vectors.push(vec);
+  }
+  return vectors;
+}
+
+function mse(a: number[][], b: number[][]): number {
+  let sum = 0;
+  a.forEach((v, i) => v.forEach((x, d) => (sum += (x - b[i][d]) ** 2)));
+  return sum / (a.length * a[0].length);
+}
+
+describe('Scalar Quantization', () => {
+  const vectors = generateVectors(300, 16);
+
+  it('should pack SQ8 codes one byte per dimension', () => {
+    const result = new VectorCompressor({
+      method: CompressionMethod.SCALAR_QUANTIZATION,
+    }).compress(vectors);
+    const { header, codes } = result.encoded!;
+
+    expect(codes).toBeInstanceOf(Uint8Array);
+    expect(header.codeLength).toBe(16);
+    expect(header.bitsPerCode).toBeUndefined();
+    expect(result.model!.scalarQuantizer!.min).toHaveLength(16);
+  });
+
+  it('should pack SQ4 codes two per byte', () => {
+    const compress = (scalarBits: number) =>
+      new VectorCompressor({
+        method: CompressionMethod.SCALAR_QUANTIZATION,
+        scalarBits,
+        normalize: false,
+      }).compress(vectors);
+    const sq4 = compress(4);
+    const sq8 = compress(8);
+    const { header } = sq4.encoded!;
+
+    expect(header.codeLength).toBe(8);
+    expect(header.bitsPerCode).toBe(4);
+    expect(Math.max(...expandCodes(sq4.encoded!))).toBeLessThanOrEqual(15);
+    expect(sq4.compressionRatio / sq8.compressionRatio).toBeGreaterThan(1.8);
+    expect(mse(vectors, sq4.compressed)).toBeGreaterThan(mse(vectors, sq8.compressed));
+  });
+
+  it('should pad odd dimensions when packing nibbles', () => {
+    const odd = generateVectors(50, 5);
+    const result = new VectorCompressor({
+      method: CompressionMethod.SCALAR_QUANTIZATION,
+      scalarBits: 4,
+      normalize: false,
+    }).compress(odd);
+    const sq = result.model!.scalarQuantizer!;
+
+    expect(result.encoded!.header.codeLength).toBe(3);
+    expect(unpackCodes(result.encoded!)).toEqual(
+      encodeScalarQuantizer(odd, sq).map(c => Array.from(c))
+    );
+  });
+
+  it('should beat a global grid step on anisotropic data', () => {
+    // Dimension d spans ±2^-d: one global step wastes levels on narrow dimensions
+    const anisotropic = generateVectors(300, 8).map(v => v.map((x, d) => x / 2 ** d));
+    const sq = trainScalarQuantizer(anisotropic, 4);
+    const perDimension = decodeScalarQuantizer(encodeScalarQuantizer(anisotropic, sq), sq);
+
+    const step = 2 / 15;
+    const global = anisotropic.map(v => v.map(x => Math.round(x / step) * step));
+
+    expect(mse(anisotropic, perDimension)).toBeLessThan(mse(anisotropic, global) / 2);
+  });
+
+  it('should clip outliers with percentile calibration', () => {
+    const data = generateVectors(1000, 4);
+    data[0] = [100, -100, 100, -100];
+    const minMax = trainScalarQuantizer(data, 8);
+    const percentile = trainScalarQuantizer(data, 8, ScalarCalibration.PERCENTILE, 0.99);
+
+    expect(minMax.max[0]).toBeCloseTo(100, 4);
+    expect(percentile.max[0]).toBeLessThan(1.01);
+    expect(percentile.min[1]).toBeGreaterThan(-1.01);
+
+    const inliers = data.slice(1);
+    const error = (sq: typeof minMax) =>
+      mse(inliers, decodeScalarQuantizer(encodeScalarQuantizer(inliers, sq), sq));
+    expect(error(percentile)).toBeLessThan(error(minMax));
+  });
+
+  it('should reject unsupported settings', () => {
+    expect(() => trainScalarQuantizer(vectors, 2)).toThrow(/scalarBits/);
+    expect(() =>
+      trainScalarQuantizer(vectors, 8, ScalarCalibration.PERCENTILE, 0)
+    ).toThrow(/scalarPercentile/);
+    expect(() =>
+      new VectorCompressor({ method: CompressionMethod.SCALAR_QUANTIZATION, scalarBits: 16 })
+        .compress(vectors)
+    ).toThrow(/scalarBits/);
+  });
+
+  it('should serialize the quantizer and packed codes', () => {
+    const result = new VectorCompressor({
+      method: CompressionMethod.SCALAR_QUANTIZATION,
+      scalarBits: 4,
+      scalarCalibration: ScalarCalibration.PERCENTILE,
+    }).compress(vectors);
+    const restored = deserialize(serialize(result));
+
+    expect(restored.model.scalarQuantizer).toEqual(result.model!.scalarQuantizer);
+    expect(restored.encoded.header.bitsPerCode).toBe(4);
+    expect(restored.encoded.codes).toEqual(result.encoded!.codes);
+    expect(restored.compressed).toEqual(result.compressed);
+  });
+
+  it('should score searches like decoded vectors', () => {
+    const query = generateVectors(1, 16)[0];
+    const metrics = [DistanceMetric.EUCLIDEAN, DistanceMetric.INNER_PRODUCT, DistanceMetric.L1];
+    for (const scalarBits of [4, 8]) {
+      for (const metric of metrics) {
+        for (const preserveNorms of [false, true]) {
+          const result = new VectorCompressor({
+            method: CompressionMethod.SCALAR_QUANTIZATION,
+            scalarBits,
+            metric,
+            preserveNorms,
+          }).compress(vectors);
+          const index = CompressedIndex.fromResult(result);
+          // Unit-space indexes normalize the query; rescaled ones keep its scale
+          const q = preserveNorms ? query : query.map(x => x / Math.hypot(...query));
+          const { ids, distances } = index.search(query, 5);
+
+          const scored = result.compressed.map(c => distance(q, c, metric));
+          const best = [...scored].sort((a, b) => a - b).slice(0, 5);
+          ids.forEach((id, r) => {
+            expect(distances[r]).toBeCloseTo(scored[id], 6);
+            expect(distances[r]).toBeCloseTo(best[r], 6);
+          });
+        }
+      }
+    }
+  });
+
+  it('should be explored by the ratio solver', () => {
+    const settings = candidateSettings(CompressionMethod.SCALAR_QUANTIZATION, 16);
+    expect(settings.map(s => s.scalarBits)).toEqual([4, 8]);
+  });
+});
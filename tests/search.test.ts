@@ -0,0 +1,122 @@
+/**
+ * Tests for search over compressed codes
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  VectorCompressor,
+  CompressionMethod,
+  CompressedIndex,
+  euclideanDistance,
+  normalizeVectors,
+  packCodes,
+} from '../src';
+
+function generateVectors(count: number, dims: number): number[][] {
+  const vectors: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const vec: number[] = [];
+    for (let j = 0; j < dims; j++) {
+      vec.push(Math.random() * 2 - 1);
+    }
+    vectors.push(vec);
+  }
+  return vectors;
+}
+
+/** Exact top-k ids against the decoded vectors */
+function bruteForce(decoded: number[][], query: number[], k: number): number[] {
+  return decoded
+    .map((v, i) => ({ i, d: euclideanDistance(v, query) }))
+    .sort((a, b) => a.d - b.d)
+    .slice(0, k)
+    .map(e => e.i);
+}
+
+describe('Compressed Index', () => {
+  const vectors = generateVectors(200, 16);
+  const query = generateVectors(1, 16)[0];
+
+  const methods = [
+    CompressionMethod.LATTICE,
+    CompressionMethod.BOUNDARY_AWARE,
+    CompressionMethod.K_MEANS,
+    CompressionMethod.PRODUCT_QUANTIZATION,
+    CompressionMethod.OPTIMIZED_PRODUCT_QUANTIZATION,
+  ];
+
+  for (const method of methods) {
+    it(`should match distances to decoded vectors (${method})`, () => {
+      const compressor = new VectorCompressor({
+        method,
+        gridStep: 0.1,
+        clusterCount: 16,
+        subQuantizers: 4,
+      });
+      const result = compressor.compress(vectors);
+      const index = CompressedIndex.fromResult(result);
+      const { ids, distances } = index.search(query, 10);
+
+      const q = normalizeVectors([query])[0];
+      expect(ids).toHaveLength(10);
+      for (let i = 0; i < ids.length; i++) {
+        expect(distances[i]).toBeCloseTo(euclideanDistance(result.compressed[ids[i]], q), 5);
+        if (i > 0) expect(distances[i]).toBeGreaterThanOrEqual(distances[i - 1]);
+      }
+    });
+  }
+
+  it('should return exact neighbors of decoded lattice vectors', () => {
+    const compressor = new VectorCompressor({ method: CompressionMethod.LATTICE, gridStep: 0.05 });
+    const result = compressor.compress(vectors);
+    const index = CompressedIndex.fromResult(result);
+    const q = normalizeVectors([query])[0];
+
+    expect(index.search(query, 5).ids).toEqual(bruteForce(result.compressed, q, 5));
+  });
+
+  it('should search in the projected space for random projection', () => {
+    const compressor = new VectorCompressor({
+      method: CompressionMethod.RANDOM_PROJECTION,
+      targetDim: 8,
+    });
+    const result = compressor.compress(vectors);
+    const index = CompressedIndex.fromResult(result);
+
+    const self = index.search(vectors[7], 1);
+    expect(self.ids[0]).toBe(7);
+    expect(self.distances[0]).toBeCloseTo(0, 4);
+  });
+
+  it('should rescore random projection candidates in the projected space', () => {
+    const wide = generateVectors(300, 32);
+    const compressor = new VectorCompressor({
+      method: CompressionMethod.RANDOM_PROJECTION,
+      targetDim: 8,
+    });
+    const index = CompressedIndex.fromResult(compressor.compress(wide));
+
+    const plain = index.search(wide[5], 5);
+    const rescored = index.search(wide[5], 5, { rescore: 50 });
+    expect(rescored.ids).toEqual(plain.ids);
+    expect(rescored.ids[0]).toBe(5);
+    rescored.distances.forEach((d, r) => expect(d).toBeCloseTo(plain.distances[r], 5));
+  });
+
+  it('should search a pre-fitted model on newly encoded vectors', () => {
+    const compressor = new VectorCompressor({ method: CompressionMethod.K_MEANS, clusterCount: 8 });
+    const model = compressor.fit(vectors);
+    const encoded = packCodes(model, compressor.encode(model, vectors.slice(0, 50)));
+    const index = new CompressedIndex(model, encoded);
+
+    expect(index.size).toBe(50);
+    expect(index.search(query, 100).ids).toHaveLength(50);
+  });
+
+  it('should reject mismatched query dimensions', () => {
+    const result = new VectorCompressor().compress(vectors);
+    const index = CompressedIndex.fromResult(result);
+
+    expect(() => index.search([1, 2, 3], 5)).toThrow();
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests for binary serialization
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  VectorCompressor,
+  CompressionMethod,
+  DistanceMetric,
+  serialize,
+  deserialize,
+  FORMAT_VERSION,
+  VERSION,
+} from '../src';
+
+function generateVectors(count: number, dims: number): number[][] {
+  const vectors: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const vec: number[] = [];
+    for (let j = 0; j < dims; j++) {
+      vec.push(Math.random() * 2 - 1);
+    }
+    vectors.push(vec);
+  }
+  return vectors;
+}
+
+const methods = [
+  { method: CompressionMethod.LATTICE, gridStep: 0.2 },
+  { method: CompressionMethod.BOUNDARY_AWARE, gridStep: 0.2, boundaryMargin: 0.1 },
+  { method: CompressionMethod.K_MEANS, clusterCount: 16 },
+  { method: CompressionMethod.RANDOM_PROJECTION, targetDim: 4 },
+  { method: CompressionMethod.PRODUCT_QUANTIZATION, subQuantizers: 4, clusterCount: 16 },
+  {
+    method: CompressionMethod.OPTIMIZED_PRODUCT_QUANTIZATION,
+    subQuantizers: 4,
+    clusterCount: 16,
+    opqIterations: 1,
+  },
+];
+
+describe('Serialization', () => {
+  methods.forEach(options => {
+    it(`should round-trip ${options.method} results`, () => {
+      const compressor = new VectorCompressor(options);
+      const result = compressor.compressWithAnalysis(generateVectors(60, 8));
+
+      const restored = deserialize(serialize(result));
+
+      expect(restored.model!.method).toBe(options.method);
+      expect(restored.encoded!.header).toEqual(result.encoded!.header);
+      expect(Array.from(restored.encoded!.codes)).toEqual(Array.from(result.encoded!.codes));
+      expect(restored.compressionRatio).toBe(result.compressionRatio);
+      restored.compressed.forEach((v, i) => {
+        v.forEach((val, d) => expect(val).toBeCloseTo(result.compressed[i][d], 5));
+      });
+    });
+  });
+
+  it('should store metrics, regime and version', () => {
+    const result = new VectorCompressor().compressWithAnalysis(generateVectors(50, 8));
+    const restored = deserialize(serialize(result));
+
+    expect(restored.metrics).toEqual(result.metrics);
+    expect(restored.regime).toBe(result.regime);
+    expect(restored.gridStep).toBe(result.gridStep);
+    expect(restored.version).toBe(VERSION);
+  });
+
+  it('should omit metrics when requested', () => {
+    const result = new VectorCompressor().compressWithAnalysis(generateVectors(50, 8));
+    const restored = deserialize(serialize(result, { includeMetrics: false }));
+
+    expect(restored.metrics).toBeUndefined();
+    expect(restored.regime).toBeUndefined();
+  });
+
+  it('should be much smaller than JSON for codebook methods', () => {
+    const result = new VectorCompressor({
+      method: CompressionMethod.PRODUCT_QUANTIZATION,
+      subQuantizers: 8,
+      clusterCount: 16,
+    }).compress(generateVectors(500, 32));
+
+    const bytes = serialize(result);
+    expect(bytes.length).toBeLessThan(JSON.stringify(result.compressed).length / 5);
+  });
+
+  it('should accept an ArrayBuffer', () => {
+    const result = new VectorCompressor().compress(generateVectors(10, 4));
+    const bytes = serialize(result);
+    const copy = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+
+    expect(deserialize(copy).compressed).toEqual(deserialize(bytes).compressed);
+  });
+
+  it('should write the magic header and format version', () => {
+    const bytes = serialize(new VectorCompressor().compress(generateVectors(10, 4)));
+
+    expect(String.fromCharCode(...bytes.subarray(0, 4))).toBe('VCMP');
+    expect(new DataView(bytes.buffer).getUint16(4, true)).toBe(FORMAT_VERSION);
+  });
+
+  it('should reject bad magic', () => {
+    expect(() => deserialize(new Uint8Array(32))).toThrow(/magic/);
+  });
+
+  it('should reject corrupted data', () => {
+    const bytes = serialize(new VectorCompressor().compress(generateVectors(10, 4)));
+    bytes[bytes.length - 1] ^= 0xff;
+
+    expect(() => deserialize(bytes)).toThrow(/Checksum/);
+  });
+
+  it('should reject newer format versions', () => {
+    const bytes = serialize(new VectorCompressor().compress(generateVectors(10, 4)));
+    new DataView(bytes.buffer).setUint16(4, FORMAT_VERSION + 1, true);
+
+    expect(() => deserialize(bytes)).toThrow(/format version/);
+  });
+
+  it('should reject format version 0', () => {
+    const bytes = serialize(new VectorCompressor().compress(generateVectors(10, 4)));
+    new DataView(bytes.buffer).setUint16(4, 0, true);
+
+    expect(() => deserialize(bytes)).toThrow(/format version 0/);
+  });
+
+  it('should store the compression options', () => {
+    const compressor = new VectorCompressor({
+      method: CompressionMethod.K_MEANS,
+      clusterCount: 8,
+      metric: DistanceMetric.COSINE,
+      k: 5,
+      normalize: false,
+    });
+    const result = compressor.compressWithAnalysis(generateVectors(40, 4));
+    const restored = deserialize(serialize(result));
+
+    expect(result.options).toEqual(compressor.getOptions());
+    expect(restored.options).toEqual(result.options);
+    expect(restored.options!.metric).toBe(DistanceMetric.COSINE);
+    expect(restored.options!.k).toBe(5);
+    expect(restored.options!.normalize).toBe(false);
+  });
+
+  it('should reject results without a model', () => {
+    expect(() => serialize({ compressed: [], compressionRatio: 1 })).toThrow();
+  });
+});
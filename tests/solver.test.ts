@@ -0,0 +1,153 @@
+/**
+ * Tests for the compression-ratio solver
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  solveCompressionRatio,
+  sweepParetoFrontier,
+  candidateSettings,
+  defaultSolverMethods,
+  CompressionMethod,
+  Regime,
+} from '../src';
+
+function generateVectors(count: number, dims: number): number[][] {
+  const vectors: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const vec: number[] = [];
+    for (let j = 0; j < dims; j++) {
+      vec.push(Math.random() * 2 - 1);
+    }
+    vectors.push(vec);
+  }
+  return vectors;
+}
+
+const fastMethods = [
+  CompressionMethod.LATTICE,
+  CompressionMethod.BOUNDARY_AWARE,
+  CompressionMethod.RANDOM_PROJECTION,
+  CompressionMethod.PRODUCT_QUANTIZATION,
+];
+
+describe('solveCompressionRatio', () => {
+  it('should return a setting that meets the target ratio', () => {
+    const vectors = generateVectors(300, 16);
+    const solution = solveCompressionRatio(vectors, 8, { methods: fastMethods });
+
+    expect(solution.targetMet).toBe(true);
+    expect(solution.best.compressionRatio).toBeGreaterThanOrEqual(8);
+    expect(solution.best.recall10).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should pick the best recall among settings meeting the target', () => {
+    const vectors = generateVectors(300, 16);
+    const solution = solveCompressionRatio(vectors, 3, { methods: fastMethods });
+
+    solution.explored
+      .filter(c => c.compressionRatio >= 3)
+      .forEach(c => expect(c.recall10).toBeLessThanOrEqual(solution.best.recall10));
+  });
+
+  it('should report the explored trade-off sorted by ratio', () => {
+    const vectors = generateVectors(200, 8);
+    const solution = solveCompressionRatio(vectors, 4, { methods: fastMethods });
+
+    expect(solution.explored.length).toBeGreaterThan(5);
+    for (let i = 1; i < solution.explored.length; i++) {
+      expect(solution.explored[i].compressionRatio).toBeGreaterThanOrEqual(
+        solution.explored[i - 1].compressionRatio
+      );
+    }
+    expect(solution.sampleSize).toBe(200);
+  });
+
+  it('should fall back to the highest ratio when the target is unreachable', () => {
+    const vectors = generateVectors(100, 8);
+    const solution = solveCompressionRatio(vectors, 1000, {
+      methods: [CompressionMethod.LATTICE],
+    });
+
+    expect(solution.targetMet).toBe(false);
+    const maxRatio = Math.max(...solution.explored.map(c => c.compressionRatio));
+    expect(solution.best.compressionRatio).toBe(maxRatio);
+  });
+
+  it('should throw on empty input', () => {
+    expect(() => solveCompressionRatio([], 10)).toThrow();
+  });
+});
+
+describe('candidateSettings', () => {
+  it('should cover every method', () => {
+    Object.values(CompressionMethod).forEach(method => {
+      const settings = candidateSettings(method, 32);
+      expect(settings.length).toBeGreaterThan(0);
+      settings.forEach(s => expect(s.method).toBe(method));
+    });
+  });
+
+  it('should not use more subspaces than dimensions', () => {
+    const settings = candidateSettings(CompressionMethod.PRODUCT_QUANTIZATION, 4);
+    settings.forEach(s => expect(s.subQuantizers).toBeLessThanOrEqual(4));
+  });
+});
+
+describe('defaultSolverMethods', () => {
+  it('should search every method on low-dimensional input', () => {
+    expect(defaultSolverMethods(128)).toEqual(Object.values(CompressionMethod));
+  });
+
+  it('should leave OPQ out above 128 dimensions', () => {
+    const methods = defaultSolverMethods(1536);
+
+    expect(methods).not.toContain(CompressionMethod.OPTIMIZED_PRODUCT_QUANTIZATION);
+    expect(methods).toContain(CompressionMethod.PRODUCT_QUANTIZATION);
+    expect(methods).toHaveLength(Object.values(CompressionMethod).length - 1);
+  });
+});
+
+describe('sweepParetoFrontier', () => {
+  const sweep = (vectors: number[][]) =>
+    sweepParetoFrontier(vectors, {
+      methods: [
+        CompressionMethod.LATTICE,
+        CompressionMethod.K_MEANS,
+        CompressionMethod.PRODUCT_QUANTIZATION,
+      ],
+      grid: { gridStep: [0.05, 0.2], clusterCount: [8, 32], subQuantizers: [2, 4] },
+    });
+
+  it('should evaluate every method × parameter combination', () => {
+    const result = sweep(generateVectors(150, 8));
+
+    // 2 grid steps + 2 cluster counts + 2 × 2 PQ settings
+    expect(result.points).toHaveLength(8);
+    result.points.forEach(point => {
+      expect(point.metrics.recall10).toBeGreaterThanOrEqual(0);
+      expect(Object.values(Regime)).toContain(point.regime);
+    });
+  });
+
+  it('should return non-dominated frontiers', () => {
+    const result = sweep(generateVectors(150, 8));
+
+    expect(result.recallFrontier.length).toBeGreaterThan(0);
+    for (const point of result.recallFrontier) {
+      const dominated = result.points.some(
+        other =>
+          other.compressionRatio >= point.compressionRatio &&
+          other.metrics.recall10 >= point.metrics.recall10 &&
+          (other.compressionRatio > point.compressionRatio ||
+            other.metrics.recall10 > point.metrics.recall10)
+      );
+      expect(dominated).toBe(false);
+    }
+    for (let i = 1; i < result.collapseFrontier.length; i++) {
+      expect(result.collapseFrontier[i].compressionRatio).toBeGreaterThan(
+        result.collapseFrontier[i - 1].compressionRatio
+      );
+    }
+  });
+});
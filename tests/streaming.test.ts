@@ -0,0 +1,101 @@
+/**
+ * Tests for streaming compression
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  VectorCompressor,
+  CompressionMethod,
+  encodeStream,
+  StreamingMetrics,
+  unpackCodes,
+} from '../src';
+
+function generateVectors(count: number, dims: number): number[][] {
+  const vectors: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const vec: number[] = [];
+    for (let j = 0; j < dims; j++) {
+      vec.push(Math.random() * 2 - 1);
+    }
+    vectors.push(vec);
+  }
+  return vectors;
+}
+
+async function* asyncSource<T>(items: T[]): AsyncGenerator<T> {
+  for (const item of items) yield item;
+}
+
+describe('Streaming Compression', () => {
+  it('should encode chunks consistently with encode()', async () => {
+    const compressor = new VectorCompressor({ method: CompressionMethod.K_MEANS, clusterCount: 16 });
+    const vectors = generateVectors(250, 8);
+    const model = compressor.fit(vectors.slice(0, 100));
+
+    const codes: number[][] = [];
+    const offsets: number[] = [];
+    for await (const chunk of encodeStream(model, asyncSource(vectors), { chunkSize: 100 })) {
+      offsets.push(chunk.offset);
+      codes.push(...unpackCodes(chunk.encoded));
+    }
+
+    expect(offsets).toEqual([0, 100, 200]);
+    expect(codes).toEqual(compressor.encode(model, vectors));
+  });
+
+  it('should accept batches and synchronous iterables', async () => {
+    const compressor = new VectorCompressor({ gridStep: 0.2 });
+    const vectors = generateVectors(90, 8);
+    const model = compressor.fit(vectors);
+    const batches = [vectors.slice(0, 40), vectors.slice(40, 45), vectors.slice(45)];
+
+    const sizes: number[] = [];
+    for await (const chunk of encodeStream(model, batches, { chunkSize: 32 })) {
+      sizes.push(chunk.encoded.header.count);
+    }
+
+    expect(sizes).toEqual([32, 32, 26]);
+  });
+
+  it('should accumulate metrics incrementally', async () => {
+    const compressor = new VectorCompressor({ method: CompressionMethod.LATTICE, gridStep: 0.1 });
+    const vectors = generateVectors(300, 8);
+    const model = compressor.fit(vectors);
+    const metrics = new StreamingMetrics(model, { sampleSize: 100 });
+
+    for await (const _ of encodeStream(model, asyncSource(vectors), { chunkSize: 64, metrics })) {
+      // Drain
+    }
+
+    const result = metrics.result();
+    expect(metrics.count).toBe(300);
+    expect(result.recall10).toBeGreaterThan(0);
+    expect(result.recall10).toBeLessThanOrEqual(1);
+    expect(result.perDimensionMSE).toHaveLength(8);
+    expect(result.compressionRatio).toBe(4);
+  });
+
+  it('should compute exact MSE over the whole stream', async () => {
+    const compressor = new VectorCompressor({
+      method: CompressionMethod.LATTICE,
+      gridStep: 0.25,
+      normalize: false,
+    });
+    const vectors = generateVectors(200, 4);
+    const model = compressor.fit(vectors);
+    const metrics = new StreamingMetrics(model, { sampleSize: 20 });
+
+    for await (const _ of encodeStream(model, vectors, { chunkSize: 50, metrics })) {
+      // Drain
+    }
+
+    const reconstructed = compressor.decode(model, compressor.encode(model, vectors));
+    const expected =
+      vectors.reduce(
+        (sum, v, i) => sum + v.reduce((s, val, d) => s + (val - reconstructed[i][d]) ** 2, 0),
+        0
+      ) / vectors.length;
+    expect(metrics.result().mse).toBeCloseTo(expected, 10);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests for persistent homology metrics
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  vietorisRipsPersistence,
+  bottleneckDistance,
+  calculateTopologyMetrics,
+  calculateMetrics,
+  detectRegime,
+  normalizeVectors,
+  VectorCompressor,
+  CompressionMethod,
+  Regime,
+} from '../src';
+
+function generateVectors(count: number, dims: number): number[][] {
+  const vectors: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const vec: number[] = [];
+    for (let j = 0; j < dims; j++) {
+      vec.push(Math.random() * 2 - 1);
+    }
+    vectors.push(vec);
+  }
+  return vectors;
+}
+
+function circle(count: number, radius: number = 1): number[][] {
+  return Array.from({ length: count }, (_, i) => {
+    const angle = (2 * Math.PI * i) / count;
+    return [radius * Math.cos(angle), radius * Math.sin(angle)];
+  });
+}
+
+describe('Persistent Homology', () => {
+  it('should find the single loop of a circle', () => {
+    const diagram = vietorisRipsPersistence(circle(30));
+
+    expect(diagram.h1).toHaveLength(1);
+    // Born at the spacing between neighbors, filled once a triangle spans
+    // the circle (around the side of the inscribed equilateral triangle)
+    expect(diagram.h1[0].birth).toBeCloseTo(2 * Math.sin(Math.PI / 30), 10);
+    expect(diagram.h1[0].death).toBeGreaterThan(1.6);
+    expect(diagram.h1[0].death).toBeLessThanOrEqual(2);
+  });
+
+  it('should track connected components in H0', () => {
+    const cluster = [[0, 0], [0.1, 0], [0, 0.1]];
+    const points = [...cluster, ...cluster.map(([x, y]) => [x + 5, y])];
+    const diagram = vietorisRipsPersistence(points);
+
+    expect(diagram.h0).toHaveLength(points.length);
+    expect(diagram.h0.filter(p => p.death === Infinity)).toHaveLength(1);
+    const finite = diagram.h0.filter(p => p.death !== Infinity).map(p => p.death);
+    expect(Math.max(...finite)).toBeCloseTo(4.9, 10);
+    expect(diagram.h1).toHaveLength(0);
+  });
+
+  it('should compute bottleneck distances', () => {
+    const a = [{ birth: 0, death: 2 }];
+
+    expect(bottleneckDistance(a, a)).toBe(0);
+    // Matched to each other (L∞ 0.5) rather than to the diagonal
+    expect(bottleneckDistance(a, [{ birth: 0.5, death: 2.5 }])).toBeCloseTo(0.5, 10);
+    // Unmatched points go to the diagonal at half their persistence
+    expect(bottleneckDistance(a, [])).toBeCloseTo(1, 10);
+    expect(
+      bottleneckDistance([{ birth: 0, death: Infinity }], [{ birth: 0.25, death: Infinity }])
+    ).toBeCloseTo(0.25, 10);
+    expect(bottleneckDistance([{ birth: 0, death: Infinity }], [])).toBe(Infinity);
+  });
+
+  it('should be stable under small perturbations', () => {
+    const points = circle(24);
+    const perturbed = points.map(([x, y], i) => [x + 0.01 * Math.cos(i), y + 0.01 * Math.sin(i)]);
+    const metrics = calculateTopologyMetrics(points, perturbed);
+
+    // Bottleneck stability: at most twice the largest point displacement
+    expect(metrics.bottleneckH0).toBeLessThanOrEqual(0.02 + 1e-12);
+    expect(metrics.bottleneckH1).toBeLessThanOrEqual(0.02 + 1e-12);
+  });
+
+  it('should report zero distortion for an identical copy', () => {
+    const vectors = generateVectors(100, 6);
+    const metrics = calculateTopologyMetrics(vectors, vectors.map(v => v.slice()), {
+      sampleSize: 32,
+    });
+
+    expect(metrics.bottleneckH0).toBe(0);
+    expect(metrics.bottleneckH1).toBe(0);
+    expect(metrics.topologicalDistortion).toBe(0);
+  });
+
+  it('should merge into calculateMetrics only when enabled', () => {
+    const vectors = generateVectors(120, 6);
+    const compressed = vectors.map(v => v.map(x => Math.round(x * 2) / 2));
+
+    expect(calculateMetrics(vectors, compressed).bottleneckH0).toBeUndefined();
+
+    const metrics = calculateMetrics(vectors, compressed, 10, { topology: true });
+    const topology = calculateTopologyMetrics(vectors, compressed);
+    expect(metrics.bottleneckH0).toBe(topology.bottleneckH0);
+    expect(metrics.bottleneckH1).toBe(topology.bottleneckH1);
+    expect(metrics.topologicalDistortion).toBe(topology.topologicalDistortion);
+  });
+
+  it('should escalate the regime on topological distortion', () => {
+    const metrics = calculateMetrics([[0]], [[0]]);
+
+    expect(detectRegime({ ...metrics, collapseIndex: 0.05 })).toBe(Regime.STABLE);
+    expect(detectRegime({ ...metrics, collapseIndex: 0.05, topologicalDistortion: 0.02 })).toBe(
+      Regime.STABLE
+    );
+    expect(detectRegime({ ...metrics, collapseIndex: 0.05, topologicalDistortion: 0.2 })).toBe(
+      Regime.COLLAPSE
+    );
+  });
+
+  it('should warn about topological distortion in compressWithAnalysis', () => {
+    const vectors = normalizeVectors(generateVectors(300, 16));
+    const compressor = new VectorCompressor({
+      method: CompressionMethod.K_MEANS,
+      clusterCount: 4,
+      topologyMetrics: true,
+    });
+    const result = compressor.compressWithAnalysis(vectors);
+
+    expect(result.metrics.topologicalDistortion).toBeGreaterThan(0.075);
+    expect(result.warnings?.some(w => w.includes('Topological distortion'))).toBe(true);
+  });
+
+  it('should warn from the policy PRE_COLLAPSE threshold', () => {
+    const vectors = normalizeVectors(generateVectors(300, 16));
+    const compressor = new VectorCompressor({
+      method: CompressionMethod.K_MEANS,
+      clusterCount: 4,
+      topologyMetrics: true,
+    });
+    const warned = (preCollapse: number) => {
+      const thresholds = { preCollapse, collapse: 10, postCollapse: 10 };
+      const { warnings } = compressor.compressWithAnalysis(vectors, { thresholds });
+      return warnings?.some(w => w.includes('Topological distortion')) ?? false;
+    };
+
+    expect(warned(0)).toBe(true);
+    expect(warned(5)).toBe(false);
+  });
+});